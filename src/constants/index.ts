@@ -1,3 +1,25 @@
 import { toBytes } from "viem"
 
-export const zeroBytes32 = `0x${Buffer.from(toBytes(0, { size: 32 })).toString("hex")}`
\ No newline at end of file
+export const zeroBytes32 = `0x${Buffer.from(toBytes(0, { size: 32 })).toString("hex")}`
+
+// Upper bound on how many ancestors are followed when resolving a schema lineage
+export const MAX_SCHEMA_LINEAGE_DEPTH = 32
+
+// Default number of data and event streams sent per transaction when a write is split into chunks
+export const DEFAULT_BATCH_MAX_ITEMS = 100
+
+// Default number of blocks searched per eth_getLogs request when reading logs over a block range
+export const DEFAULT_LOG_PAGE_SIZE = 1000
+
+// Default number of records read per call when iterating over the history of a publisher
+export const DEFAULT_READ_PAGE_SIZE = 100
+
+// Default number of calls batched into one Multicall3 request by bulk reads
+export const DEFAULT_MULTICALL_BATCH_SIZE = 100
+
+// Default number of recent blocks a resumable subscription tracks to detect reorgs
+export const DEFAULT_REORG_DEPTH = 64
+
+// Default delays in milliseconds before a resumable subscription reconnects or retries, doubling up to the maximum
+export const DEFAULT_RECONNECT_DELAY = 1000
+export const DEFAULT_MAX_RECONNECT_DELAY = 30000
\ No newline at end of file
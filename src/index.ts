@@ -1,12 +1,52 @@
 // Dependencies for SDK class
 import { Client } from "@/types"
+import { ErrorMode, StreamsOptions } from "@/types/streams"
 import {
     Streams,
 } from "@/modules"
 
 // Exports for SDK consumers
 export { zeroBytes32 } from "@/constants"
-export { SchemaEncoder } from "@/modules"
+export { KnownContracts, ContractRef } from "@/types"
+export {
+    registerChain,
+    getSupportedChains,
+    ChainRegistration,
+} from "@/services/smart-contracts"
+export {
+    SchemaEncoder,
+    defineSchema,
+    Publisher,
+    StreamHandle,
+    encodeEventStream,
+    decodeEventStream,
+    defineKey,
+    assertNoKeyCollisions,
+    findKeyCollisions,
+    StreamsEmulator,
+} from "@/modules"
+export { StreamsEmulatorOptions } from "@/types/emulator"
+export {
+    SchemaItem,
+    SchemaValue,
+    SchemaDecodedItem,
+    SchemaObject,
+} from "@/modules/streams/encoder"
+export {
+    SchemaRecord,
+    SchemaParameters,
+    TypedSchema,
+} from "@/modules/streams/schema"
+export {
+    KeyPartType,
+    KeyLayout,
+    KeyValues,
+    KeyInput,
+    KeyBuilder,
+    KeyOptions,
+    StructuredKey,
+} from "@/modules/streams/keys"
+export { StreamWatchOptions } from "@/modules/streams/handle"
 export { 
     SchemaReference,
     DataStream,
@@ -17,19 +57,117 @@ export {
     StreamsInterface,
     GetSomniaDataStreamsProtocolInfoResponse,
     EventSchemaRegistration,
+    ReadOptions,
+    ReadResult,
+    SchemaLineageEntry,
+    StreamsOptions,
+    ErrorMode,
+    Result,
+    Outcome,
+    SchemaInfo,
+    WaitOptions,
+    WriteResult,
+    StoredData,
+    RegisteredDataSchema,
+    RegisteredEventSchema,
+    TransactionHandle,
+    WriteOptions,
+    WriteOutcome,
+    SimulationResult,
+    BatchOptions,
+    BatchChunk,
+    BatchChunkResult,
+    BatchProgress,
+    BatchWriteOptions,
+    BatchWriteResult,
+    PublisherOptions,
+    PublishOptions,
+    PublishedTransaction,
+    PublisherEvents,
+    StreamHandleOptions,
+    StreamRecord,
+    StreamUpdate,
+    StreamSubscription,
+    EventLogQuery,
+    StreamsEventLog,
+    PublisherScanOptions,
+    PublisherActivity,
+    PublisherScan,
+    PageReadOptions,
+    ReadRecord,
+    BulkReadOptions,
+    BulkResult,
+    SubscriptionCall,
+    EventNotification,
+    EventSubscriptionOptions,
+    DataWatchOptions,
+    DataUpdate,
+    LogPosition,
+    SubscriptionCursor,
+    SubscriptionRetraction,
+    ResumeOptions,
  } from "@/types/streams"
+export {
+    StreamsError,
+    StreamsErrorCode,
+    StreamsErrorContext,
+    StreamsContractError,
+    StreamsValidationError,
+    StreamsWalletError,
+    StreamsTransportError,
+    toStreamsError,
+} from "@/services/errors"
+export {
+    Logger,
+    LogLevel,
+    LogContext,
+    ObjectFirstLogger,
+    MessageFirstLogger,
+    createConsoleLogger,
+    fromObjectFirstLogger,
+    fromMessageFirstLogger,
+    withLogLevel,
+    silentLogger,
+} from "@/services/logs"
+export {
+    CacheStorageAdapter,
+    InMemoryLRUCache,
+    SchemaCache,
+} from "@/services/cache"
+export {
+    CompressionAlgorithm,
+    COMPRESSION_MAGIC,
+    compressData,
+    decompressData,
+    isCompressedData,
+} from "@/services/compression"
+export {
+    KeyProvider,
+    EncryptionOptions,
+    EncryptedRecord,
+    ENCRYPTION_MAGIC,
+    createKeyProvider,
+    decryptData,
+    encryptData,
+    generateSymmetricKey,
+    isEncryptedData,
+    isEncryptedRecord,
+    symmetricKeyId,
+} from "@/services/encryption"
 
-export class SDK extends Streams {
+export class SDK<M extends ErrorMode = "legacy"> extends Streams<M> {
     // Public modules that can be accessed on the SDK instance
-    streams: Streams
+    streams: Streams<M>
 
     /**
      * Create a new SDK instance
      * @param client Viem wrapper object for consuming the public client and optionally the wallet client for transactions
+     * @param options Optional configuration shared by the SDK and its streams module
      */
-    constructor(client: Client) {
-        super(client)
-        this.streams = new Streams(client)
+    constructor(client: Client, options: StreamsOptions<M> = {}) {
+        super(client, options)
+        // Share the schema cache so that both entry points benefit from each other's lookups
+        this.streams = new Streams(client, { ...options, cache: this.schemaCache })
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { Address, createPublicClient, createWalletClient, custom, parseAbi, toHex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { SDK } from "@/index"
+import { StreamsContractError, StreamsErrorCode } from "@/services/errors"
+import { defineSchema } from "@/modules/streams/schema"
+import { StreamsEmulatorOptions } from "@/types/emulator"
+import { StreamsEmulator } from "."
+
+const account = privateKeyToAccount(`0x${"11".repeat(32)}`)
+const message = defineSchema("uint64 timestamp, string message")
+const totalAbi = parseAbi(["function totalPublisherDataForSchema(bytes32 schemaId, address publisher) view returns (uint256)"])
+
+function setup(options: StreamsEmulatorOptions = {}) {
+    const emulator = new StreamsEmulator(options)
+    const requests: string[] = []
+    // Records every request so that tests can assert how many calls the SDK made
+    const transport = custom({
+        request: ({ method, params }) => {
+            requests.push(method)
+            return emulator.request(method, params)
+        },
+    }, { retryCount: 0 })
+    const publicClient = createPublicClient({ chain: emulator.chain, transport })
+    const sdk = new SDK({
+        public: publicClient,
+        wallet: createWalletClient({ chain: emulator.chain, account, transport }),
+    }, { errorMode: "throw", logLevel: "silent" })
+    return { emulator, sdk, publicClient, requests }
+}
+
+async function registerMessageSchema(sdk: SDK<"throw">): Promise<`0x${string}`> {
+    await (await sdk.streams.registerDataSchemas([{ schemaName: "message", schema: message.schema }])).wait()
+    return sdk.streams.computeSchemaId(message.schema)
+}
+
+function key(n: number) {
+    return toHex(n, { size: 32 })
+}
+
+describe("StreamsEmulator", () => {
+    it("registers schemas and reads back the records written", async () => {
+        const { sdk } = setup()
+        const schemaId = await registerMessageSchema(sdk)
+        expect(await sdk.streams.isDataSchemaRegistered(schemaId)).toBe(true)
+        expect(await sdk.streams.schemaNameToSchemaId("message")).toBe(schemaId)
+
+        const records = ["hello", "world", "again"].map((text, i) => ({
+            id: key(i + 1),
+            schemaId,
+            data: message.encode({ timestamp: BigInt(i), message: text }),
+        }))
+        await (await sdk.streams.set(records)).wait()
+
+        const [byKey] = await sdk.streams.getByKey(schemaId, account.address, key(2), { schema: message })
+        expect(byKey).toEqual({ timestamp: BigInt(1), message: "world" })
+        const [atIndex] = await sdk.streams.getAtIndex(schemaId, account.address, BigInt(2), { schema: message })
+        expect(atIndex).toEqual({ timestamp: BigInt(2), message: "again" })
+        const range = await sdk.streams.getBetweenRange(schemaId, account.address, BigInt(0), BigInt(2), { schema: message })
+        expect(range.map((record) => "message" in record && record.message)).toEqual(["hello", "world"])
+        expect(await sdk.streams.totalPublisherDataForSchema(schemaId, account.address)).toBe(BigInt(3))
+
+        // Writing an existing key overwrites its record in place
+        await (await sdk.streams.set([{ id: key(2), schemaId, data: message.encode({ timestamp: BigInt(9), message: "updated" }) }])).wait()
+        const [overwritten] = await sdk.streams.getAtIndex(schemaId, account.address, BigInt(1), { schema: message })
+        expect(overwritten).toEqual({ timestamp: BigInt(9), message: "updated" })
+        expect(await sdk.streams.totalPublisherDataForSchema(schemaId, account.address)).toBe(BigInt(3))
+    })
+
+    it("maps protocol reverts to error codes", async () => {
+        const { sdk } = setup()
+        const schemaId = await registerMessageSchema(sdk)
+
+        const codeOf = (promise: Promise<unknown>) => promise.then(
+            () => undefined,
+            (e) => {
+                expect(e).toBeInstanceOf(StreamsContractError)
+                return (e as StreamsContractError).code
+            }
+        )
+        await expect(codeOf(sdk.streams.registerDataSchemas([{ schemaName: "message", schema: message.schema }])))
+            .resolves.toBe(StreamsErrorCode.SchemaAlreadyRegistered)
+        await expect(codeOf(sdk.streams.set([{ id: key(1), schemaId: key(7), data: "0x01" }])))
+            .resolves.toBe(StreamsErrorCode.SchemaNotRegistered)
+        await expect(codeOf(sdk.streams.emitEvents([{ id: "Missing", argumentTopics: [], data: "0x" }])))
+            .resolves.toBe(StreamsErrorCode.EventSchemaNotRegistered)
+
+        await (await sdk.streams.set([{ id: key(1), schemaId, data: message.encode({ timestamp: BigInt(1), message: "a" }) }])).wait()
+        await expect(codeOf(sdk.streams.getBetweenRange(schemaId, account.address, BigInt(1), BigInt(0))))
+            .resolves.toBe(StreamsErrorCode.InvalidRange)
+        await expect(codeOf(sdk.streams.getAtIndex(schemaId, account.address, BigInt(5))))
+            .resolves.toBe(StreamsErrorCode.InvalidIndex)
+    })
+
+    it("pages event log queries that exceed the node block range limit", async () => {
+        const { emulator, sdk, requests } = setup({ maxLogBlockRange: 4 })
+        await (await sdk.streams.registerEventSchemas([{
+            id: "Ping",
+            schema: {
+                params: [{ name: "n", paramType: "uint256", isIndexed: true }],
+                eventTopic: "Ping(uint256)",
+            },
+        }])).wait()
+        const fromBlock = emulator.getBlockNumber() + BigInt(1)
+        for (let n = 0; n < 5; n++) {
+            await (await sdk.streams.emitEvents([await sdk.streams.buildEventStream("Ping", { n: BigInt(n) })])).wait()
+            emulator.mine(2)
+        }
+
+        requests.length = 0
+        const logs = await sdk.streams.getEventLogs("Ping", { fromBlock, pageSize: 100 })
+        expect(logs.map((log) => log.args.n)).toEqual([0, 1, 2, 3, 4].map(BigInt))
+        expect(requests.filter((method) => method === "eth_getLogs").length).toBeGreaterThan(1)
+
+        const filtered = await sdk.streams.getEventLogs("Ping", { fromBlock, filters: { n: BigInt(3) }, pageSize: 4 })
+        expect(filtered.map((log) => log.args.n)).toEqual([BigInt(3)])
+    })
+
+    it("batches bulk reads into multicall requests", async () => {
+        const { sdk, requests } = setup()
+        const schemaId = await registerMessageSchema(sdk)
+        await (await sdk.streams.set([1, 2].map((n) => ({
+            id: key(n),
+            schemaId,
+            data: message.encode({ timestamp: BigInt(n), message: `m${n}` }),
+        })))).wait()
+
+        requests.length = 0
+        const results = await sdk.streams.getByKeys(schemaId, account.address, [key(1), key(2), key(3)], { schema: message })
+        // One request for the data index of every key and one for the records written under them
+        expect(requests.filter((method) => method === "eth_call").length).toBe(2)
+        expect(results[0]).toEqual({ status: "success", result: { timestamp: BigInt(1), message: "m1" } })
+        expect(results[1]).toEqual({ status: "success", result: { timestamp: BigInt(2), message: "m2" } })
+        expect(results[2].status).toBe("success")
+        expect(results[2].status === "success" && results[2].result).toBeUndefined()
+
+        const other: Address = "0x0000000000000000000000000000000000000001"
+        const counts = await sdk.streams.getCounts(schemaId, [account.address, other])
+        expect(counts).toEqual([{ status: "success", result: BigInt(2) }, { status: "success", result: BigInt(0) }])
+    })
+
+    it("executes calls against the state of the requested block", async () => {
+        const { emulator, sdk, publicClient } = setup()
+        const schemaId = await registerMessageSchema(sdk)
+        const before = emulator.getBlockNumber()
+        await (await sdk.streams.set([{ id: key(1), schemaId, data: message.encode({ timestamp: BigInt(1), message: "a" }) }])).wait()
+
+        const total = (blockNumber?: bigint) => publicClient.readContract({
+            address: emulator.address,
+            abi: totalAbi,
+            functionName: "totalPublisherDataForSchema",
+            args: [schemaId, account.address],
+            blockNumber,
+        })
+        await expect(total(before)).resolves.toBe(BigInt(0))
+        await expect(total()).resolves.toBe(BigInt(1))
+        await expect(total(emulator.getBlockNumber() + BigInt(1))).rejects.toThrow(/header not found/)
+    })
+})
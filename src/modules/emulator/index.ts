@@ -0,0 +1,679 @@
+import {
+    Abi,
+    Address,
+    Chain,
+    CustomTransport,
+    Hex,
+    RpcLog,
+    custom,
+    defineChain,
+    decodeFunctionData,
+    encodeAbiParameters,
+    encodeErrorResult,
+    encodeFunctionResult,
+    getAddress,
+    hexToBigInt,
+    isAddressEqual,
+    keccak256,
+    multicall3Abi,
+    numberToHex,
+    parseTransaction,
+    recoverTransactionAddress,
+    size,
+    zeroAddress,
+    zeroHash,
+} from "viem"
+import { KnownContracts } from "@/types"
+import { StreamsEmulatorOptions } from "@/types/emulator"
+import { StreamsABI } from "@/services/smart-contracts/abi/Streams"
+import { getKnownContractAddress } from "@/services/smart-contracts"
+import { Chains } from "@/services/smart-contracts/constants"
+import { StreamsErrorCode, StreamsValidationError } from "@/services/errors"
+import { MULTICALL3_ADDRESS } from "../streams/multicall"
+import { ProtocolLog, ProtocolRevert, StreamsProtocol } from "./protocol"
+
+const DEFAULT_BLOCK_GAS_LIMIT = BigInt(30000000)
+const DEFAULT_BASE_FEE_PER_GAS = BigInt(6000000000)
+const DEFAULT_MAX_PRIORITY_FEE_PER_GAS = BigInt(0)
+const DEFAULT_MAX_ARRAY_LENGTH = 1000
+
+// Intrinsic gas of every transaction and of its calldata, per the EVM schedule
+const TRANSACTION_GAS = 21000
+const GAS_PER_ZERO_BYTE = 4
+const GAS_PER_NON_ZERO_BYTE = 16
+
+// JSON-RPC error codes returned by nodes
+const EXECUTION_REVERTED = 3
+const INVALID_INPUT = -32000
+const METHOD_NOT_FOUND = -32601
+const LIMIT_EXCEEDED = -32005
+
+const EMPTY_BLOOM = `0x${"00".repeat(256)}` as Hex
+
+const errorStringAbi = [{ type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] }] as const
+
+type Block = {
+    number: bigint
+    hash: Hex
+    parentHash: Hex
+    timestamp: bigint
+    gasUsed: bigint
+    transactions: Hex[]
+}
+
+type MinedTransaction = {
+    transaction: Record<string, unknown>
+    receipt: Record<string, unknown>
+}
+
+type CallRequest = {
+    from?: Address
+    to?: Address | null
+    data?: Hex
+    input?: Hex
+    gas?: Hex
+    value?: Hex
+    nonce?: Hex
+    gasPrice?: Hex
+    maxFeePerGas?: Hex
+    maxPriorityFeePerGas?: Hex
+}
+
+type LogFilter = {
+    address?: Address | Address[]
+    topics?: (Hex | Hex[] | null)[]
+    fromBlock?: string
+    toBlock?: string
+    blockHash?: Hex
+}
+
+type Execution = {
+    success: boolean
+    returnData: Hex
+    logs: ProtocolLog[]
+    gas: bigint
+    protocol?: StreamsProtocol
+}
+
+type PendingTransaction = {
+    hash: Hex
+    from: Address
+    to: Address | null
+    data: Hex
+    nonce: number
+    gas: bigint
+    value: bigint
+    fees: { gasPrice: bigint } | { maxFeePerGas: bigint, maxPriorityFeePerGas: bigint }
+    signature: { r: Hex, s: Hex, v: bigint, yParity: number }
+}
+
+class RpcError extends Error {
+    public readonly code: number
+    public readonly data?: Hex
+
+    constructor(code: number, message: string, data?: Hex) {
+        super(message)
+        this.code = code
+        this.data = data
+    }
+}
+
+/**
+ * In-memory implementation of the Streams protocol and the parts of a node the SDK talks to, exposed as a viem transport
+ * @dev Every transaction is mined into its own block straight away, and eth_call executes against the state of the requested block
+ * @dev Reverts carry the protocol custom errors and writes emit the protocol logs, so SDK errors and receipts match a live chain
+ * @example
+ * const emulator = new StreamsEmulator()
+ * const sdk = new SDK({
+ *     public: createPublicClient({ chain: emulator.chain, transport: emulator.transport }),
+ *     wallet: createWalletClient({ chain: emulator.chain, account: privateKeyToAccount(key), transport: emulator.transport }),
+ * })
+ */
+export class StreamsEmulator {
+    // Chain id reported by eth_chainId
+    public readonly chainId: number
+    // Address the protocol is deployed at
+    public readonly address: Address
+    // Chain to give wallet clients that send unsigned transactions from one of the emulator accounts
+    public readonly chain: Chain
+    // Transport for public and wallet clients, requests are not retried so failures surface straight away
+    public readonly transport: CustomTransport
+
+    private readonly options: StreamsEmulatorOptions
+    private readonly abi: Promise<Abi>
+    private protocol: Promise<StreamsProtocol>
+    private readonly blocks: Block[] = []
+    // Protocol state at the end of every block, by block number
+    private readonly states: Promise<StreamsProtocol>[] = []
+    private readonly transactions = new Map<string, MinedTransaction>()
+    private readonly logs: RpcLog[] = []
+    private readonly nonces = new Map<string, number>()
+    // Transactions are mined one at a time, each against the state left by the previous one
+    private mining: Promise<unknown> = Promise.resolve()
+
+    /**
+     * @param options Chain, protocol deployment and block settings
+     */
+    constructor(options: StreamsEmulatorOptions = {}) {
+        this.options = options
+        this.chainId = options.chainId ?? Number(Chains.SomniaTestnet)
+        const address = options.address ?? getKnownContractAddress(KnownContracts.STREAMS, this.chainId)
+        if (!address) {
+            throw new StreamsValidationError(
+                StreamsErrorCode.InvalidArgument,
+                `Supply the address of the emulated protocol, no deployment is known for chain ${this.chainId}`
+            )
+        }
+        this.address = getAddress(address)
+
+        this.abi = StreamsABI()
+        const owner = options.owner ?? options.accounts?.[0] ?? zeroAddress
+        this.protocol = this.abi.then((abi) => new StreamsProtocol(abi, owner, options.maxArrayLength ?? DEFAULT_MAX_ARRAY_LENGTH))
+        this.chain = defineChain({
+            id: this.chainId,
+            name: "Streams Emulator",
+            nativeCurrency: { name: "Somnia Test Token", symbol: "STT", decimals: 18 },
+            rpcUrls: { default: { http: [] } },
+            contracts: { multicall3: { address: MULTICALL3_ADDRESS } },
+        })
+        this.transport = custom({ request: ({ method, params }) => this.request(method, params) }, { retryCount: 0 })
+
+        const timestamp = BigInt(options.timestamp ?? Math.floor(Date.now() / 1000))
+        this.blocks.push(this.buildBlock(BigInt(0), zeroHash, timestamp, [], BigInt(0)))
+        this.states.push(this.protocol)
+    }
+
+    /**
+     * Number of the latest block
+     * @returns Block number
+     */
+    public getBlockNumber(): bigint {
+        return this.head().number
+    }
+
+    /**
+     * Mine empty blocks, for example to spread writes over a block range
+     * @param blocks Number of blocks to mine
+     */
+    public mine(blocks: number = 1): void {
+        for (let i = 0; i < blocks; i++) {
+            this.mineBlock([], BigInt(0))
+        }
+    }
+
+    /**
+     * Handle a JSON-RPC request
+     * @param method JSON-RPC method
+     * @param params JSON-RPC parameters
+     * @returns JSON-RPC result
+     */
+    public async request(method: string, params: unknown): Promise<unknown> {
+        const args = (Array.isArray(params) ? params : []) as unknown[]
+        switch (method) {
+            case "eth_chainId":
+                return numberToHex(this.chainId)
+            case "net_version":
+                return this.chainId.toString()
+            case "eth_accounts":
+            case "eth_requestAccounts":
+                return this.options.accounts ?? []
+            case "eth_blockNumber":
+                return numberToHex(this.head().number)
+            case "eth_getBlockByNumber": {
+                const block = this.blockAt(args[0] as string)
+                return block ? this.formatBlock(block, args[1] === true) : null
+            }
+            case "eth_getBlockByHash": {
+                const block = this.blocks.find((candidate) => candidate.hash === (args[0] as string).toLowerCase())
+                return block ? this.formatBlock(block, args[1] === true) : null
+            }
+            case "eth_gasPrice":
+                return numberToHex(this.baseFeePerGas() + this.maxPriorityFeePerGas())
+            case "eth_maxPriorityFeePerGas":
+                return numberToHex(this.maxPriorityFeePerGas())
+            case "eth_getBalance":
+                return "0x0"
+            case "eth_getCode":
+                // The protocol sits behind a proxy, any non empty code marks the address as a contract
+                return isAddressEqual(args[0] as Address, this.address) || isAddressEqual(args[0] as Address, MULTICALL3_ADDRESS)
+                    ? "0xfe"
+                    : "0x"
+            case "eth_getTransactionCount":
+                return numberToHex(this.nonces.get((args[0] as string).toLowerCase()) ?? 0)
+            case "eth_getTransactionByHash":
+                return this.transactions.get((args[0] as string).toLowerCase())?.transaction ?? null
+            case "eth_getTransactionReceipt":
+                return this.transactions.get((args[0] as string).toLowerCase())?.receipt ?? null
+            case "eth_call": {
+                const execution = await this.execute(args[0] as CallRequest, args[1] as string | undefined)
+                if (!execution.success) {
+                    throw this.revertError(execution.returnData)
+                }
+                return execution.returnData
+            }
+            case "eth_estimateGas": {
+                const request = args[0] as CallRequest
+                const execution = await this.execute(request, args[1] as string | undefined)
+                if (!execution.success) {
+                    throw this.revertError(execution.returnData)
+                }
+                if (execution.gas > this.blockGasLimit()) {
+                    throw new RpcError(INVALID_INPUT, `gas required exceeds allowance (${this.blockGasLimit()})`)
+                }
+                return numberToHex(execution.gas)
+            }
+            case "eth_sendTransaction":
+                return this.sendTransaction(args[0] as CallRequest)
+            case "eth_sendRawTransaction":
+                return this.sendRawTransaction(args[0] as Hex)
+            case "eth_getLogs":
+                return this.getLogs(args[0] as LogFilter)
+        }
+        throw new RpcError(METHOD_NOT_FOUND, `The method ${method} is not supported by the Streams emulator`)
+    }
+
+    private async sendTransaction(request: CallRequest): Promise<Hex> {
+        if (!request.from) {
+            throw new RpcError(INVALID_INPUT, "from is required for eth_sendTransaction")
+        }
+        // The nonce and gas are filled in once earlier transactions are mined
+        return this.submit(() => this.prepareTransaction(request.from!, request))
+    }
+
+    private async prepareTransaction(sender: Address, request: CallRequest): Promise<PendingTransaction> {
+        const from = getAddress(sender)
+        const nonce = request.nonce !== undefined ? Number(hexToBigInt(request.nonce)) : this.nonces.get(from.toLowerCase()) ?? 0
+        let gas = request.gas !== undefined ? hexToBigInt(request.gas) : undefined
+        if (gas === undefined) {
+            // Like a node, gas is estimated when not supplied which rejects transactions that would revert
+            const estimate = await this.execute(request)
+            if (!estimate.success) {
+                throw this.revertError(estimate.returnData)
+            }
+            gas = estimate.gas
+        }
+
+        const data = request.data ?? request.input ?? "0x"
+        const fees = request.gasPrice !== undefined
+            ? { gasPrice: hexToBigInt(request.gasPrice) }
+            : {
+                maxFeePerGas: request.maxFeePerGas !== undefined ? hexToBigInt(request.maxFeePerGas) : this.baseFeePerGas() + this.maxPriorityFeePerGas(),
+                maxPriorityFeePerGas: request.maxPriorityFeePerGas !== undefined ? hexToBigInt(request.maxPriorityFeePerGas) : this.maxPriorityFeePerGas(),
+            }
+        return {
+            hash: keccak256(encodeAbiParameters(
+                [{ type: "uint256" }, { type: "address" }, { type: "uint256" }, { type: "bytes" }],
+                [BigInt(this.chainId), from, BigInt(nonce), data]
+            )),
+            from,
+            to: request.to ? getAddress(request.to) : null,
+            data,
+            nonce,
+            gas,
+            value: request.value !== undefined ? hexToBigInt(request.value) : BigInt(0),
+            fees,
+            signature: { r: zeroHash, s: zeroHash, v: BigInt(0), yParity: 0 },
+        }
+    }
+
+    private async sendRawTransaction(serializedTransaction: Hex): Promise<Hex> {
+        const transaction = parseTransaction(serializedTransaction)
+        if (transaction.chainId !== undefined && transaction.chainId !== this.chainId) {
+            throw new RpcError(INVALID_INPUT, `invalid chain id ${transaction.chainId}, expected ${this.chainId}`)
+        }
+        const from = await recoverTransactionAddress({ serializedTransaction } as Parameters<typeof recoverTransactionAddress>[0])
+
+        return this.submit(async () => ({
+            hash: keccak256(serializedTransaction),
+            from,
+            to: transaction.to ?? null,
+            data: transaction.data ?? "0x",
+            nonce: transaction.nonce ?? 0,
+            gas: transaction.gas ?? BigInt(0),
+            value: transaction.value ?? BigInt(0),
+            fees: transaction.maxFeePerGas !== undefined
+                ? { maxFeePerGas: transaction.maxFeePerGas, maxPriorityFeePerGas: transaction.maxPriorityFeePerGas ?? BigInt(0) }
+                : { gasPrice: transaction.gasPrice ?? BigInt(0) },
+            signature: {
+                r: transaction.r ?? zeroHash,
+                s: transaction.s ?? zeroHash,
+                v: transaction.v ?? BigInt(transaction.yParity ?? 0),
+                yParity: transaction.yParity ?? 0,
+            },
+        }))
+    }
+
+    /**
+     * Validate a transaction the way a node's mempool does, then mine it into a block of its own
+     * @dev A transaction that reverts or runs out of gas is still mined with a failed status and leaves the protocol untouched
+     */
+    private submit(prepare: () => Promise<PendingTransaction>): Promise<Hex> {
+        const mined = this.mining.catch(() => undefined).then(async () => this.mineTransaction(await prepare()))
+        this.mining = mined
+        return mined
+    }
+
+    private async mineTransaction(pending: PendingTransaction): Promise<Hex> {
+        if (this.transactions.has(pending.hash)) {
+            throw new RpcError(INVALID_INPUT, "already known")
+        }
+        const expectedNonce = this.nonces.get(pending.from.toLowerCase()) ?? 0
+        if (pending.nonce < expectedNonce) {
+            throw new RpcError(INVALID_INPUT, `nonce too low: next nonce ${expectedNonce}, tx nonce ${pending.nonce}`)
+        }
+        if (pending.nonce > expectedNonce) {
+            // Nothing is kept pending so a transaction can only be mined with the next nonce
+            throw new RpcError(INVALID_INPUT, `nonce too high: next nonce ${expectedNonce}, tx nonce ${pending.nonce}`)
+        }
+        if (pending.gas > this.blockGasLimit()) {
+            throw new RpcError(INVALID_INPUT, "exceeds block gas limit")
+        }
+        if (pending.gas < this.intrinsicGas(pending.data)) {
+            throw new RpcError(INVALID_INPUT, "intrinsic gas too low")
+        }
+        const maxFee = "gasPrice" in pending.fees ? pending.fees.gasPrice : pending.fees.maxFeePerGas
+        if (maxFee < this.baseFeePerGas()) {
+            throw new RpcError(INVALID_INPUT, `max fee per gas less than block base fee: maxFeePerGas: ${maxFee} baseFee: ${this.baseFeePerGas()}`)
+        }
+
+        const execution = await this.execute({ from: pending.from, to: pending.to, data: pending.data })
+        const success = execution.success && execution.gas <= pending.gas
+        const gasUsed = execution.gas < pending.gas ? execution.gas : pending.gas
+        if (success && execution.protocol) {
+            this.protocol = Promise.resolve(execution.protocol)
+        }
+        this.nonces.set(pending.from.toLowerCase(), pending.nonce + 1)
+
+        const block = this.mineBlock([pending.hash], gasUsed)
+        const blockFields = { blockHash: block.hash, blockNumber: numberToHex(block.number), transactionIndex: "0x0" as Hex }
+        const logs: RpcLog[] = success
+            ? execution.logs.map((log, i) => ({
+                address: this.address,
+                topics: log.topics as [Hex, ...Hex[]],
+                data: log.data,
+                ...blockFields,
+                transactionHash: pending.hash,
+                logIndex: numberToHex(i),
+                removed: false,
+            }))
+            : []
+        this.logs.push(...logs)
+
+        const priorityFee = "gasPrice" in pending.fees ? pending.fees.gasPrice - this.baseFeePerGas() : pending.fees.maxPriorityFeePerGas
+        const effectiveGasPrice = this.baseFeePerGas() + (priorityFee < maxFee - this.baseFeePerGas() ? priorityFee : maxFee - this.baseFeePerGas())
+        const type = "gasPrice" in pending.fees ? "0x0" : "0x2"
+        this.transactions.set(pending.hash, {
+            transaction: {
+                hash: pending.hash,
+                ...blockFields,
+                from: pending.from,
+                to: pending.to,
+                input: pending.data,
+                nonce: numberToHex(pending.nonce),
+                gas: numberToHex(pending.gas),
+                value: numberToHex(pending.value),
+                chainId: numberToHex(this.chainId),
+                type,
+                ...("gasPrice" in pending.fees
+                    ? { gasPrice: numberToHex(pending.fees.gasPrice) }
+                    : {
+                        gasPrice: numberToHex(effectiveGasPrice),
+                        maxFeePerGas: numberToHex(pending.fees.maxFeePerGas),
+                        maxPriorityFeePerGas: numberToHex(pending.fees.maxPriorityFeePerGas),
+                        accessList: [],
+                    }),
+                r: pending.signature.r,
+                s: pending.signature.s,
+                v: numberToHex(pending.signature.v),
+                yParity: numberToHex(pending.signature.yParity),
+            },
+            receipt: {
+                transactionHash: pending.hash,
+                ...blockFields,
+                from: pending.from,
+                to: pending.to,
+                contractAddress: null,
+                cumulativeGasUsed: numberToHex(gasUsed),
+                gasUsed: numberToHex(gasUsed),
+                effectiveGasPrice: numberToHex(effectiveGasPrice),
+                logs,
+                logsBloom: EMPTY_BLOOM,
+                status: success ? "0x1" : "0x0",
+                type,
+            },
+        })
+        return pending.hash
+    }
+
+    /**
+     * Execute a call against a copy of the state at a block
+     * @param request Call to execute
+     * @param blockTag Block whose state is used, the latest block by default
+     * @returns Outcome of the call with the copy of the protocol holding any changes it made
+     */
+    private async execute(request: CallRequest, blockTag: string = "latest"): Promise<Execution> {
+        const data = request.data ?? request.input ?? "0x"
+        const sender = request.from ? getAddress(request.from) : zeroAddress
+        const intrinsic = this.intrinsicGas(data)
+        if (!request.to) {
+            throw new RpcError(INVALID_INPUT, "Contract deployment is not supported by the Streams emulator")
+        }
+
+        const state = this.stateAt(blockTag)
+        if (isAddressEqual(request.to, MULTICALL3_ADDRESS)) {
+            return this.aggregate3(state, data, sender, intrinsic)
+        }
+        if (!isAddressEqual(request.to, this.address)) {
+            // Any other address has no code so calls to it succeed without doing anything
+            return { success: true, returnData: "0x", logs: [], gas: intrinsic }
+        }
+
+        const protocol = (await state).clone()
+        const outcome = await this.callProtocol(protocol, data, sender)
+        return { ...outcome, gas: intrinsic + outcome.gas, protocol }
+    }
+
+    private async callProtocol(protocol: StreamsProtocol, data: Hex, sender: Address): Promise<Omit<Execution, "protocol">> {
+        const abi = await this.abi
+        let call: { functionName: string, args?: readonly unknown[] }
+        try {
+            call = decodeFunctionData({ abi, data })
+        } catch {
+            // Unknown selectors and malformed calldata revert without a reason
+            return { success: false, returnData: "0x", logs: [], gas: BigInt(0) }
+        }
+
+        try {
+            const { result, logs, gas } = protocol.call(call.functionName, call.args ?? [], sender)
+            return {
+                success: true,
+                returnData: encodeFunctionResult({ abi, functionName: call.functionName, result } as Parameters<typeof encodeFunctionResult>[0]),
+                logs,
+                gas: BigInt(gas),
+            }
+        } catch (e) {
+            if (e instanceof ProtocolRevert) {
+                return {
+                    success: false,
+                    returnData: encodeErrorResult({ abi, errorName: e.errorName, args: e.errorArgs } as Parameters<typeof encodeErrorResult>[0]),
+                    logs: [],
+                    gas: BigInt(0),
+                }
+            }
+            throw e
+        }
+    }
+
+    /**
+     * Multicall3 aggregate3 over the protocol so that batched reads work without a deployed Multicall3
+     */
+    private async aggregate3(state: Promise<StreamsProtocol>, data: Hex, sender: Address, intrinsic: bigint): Promise<Execution> {
+        const { functionName, args } = decodeFunctionData({ abi: multicall3Abi, data })
+        if (functionName !== "aggregate3") {
+            throw new RpcError(INVALID_INPUT, `Multicall3 ${functionName} is not supported by the Streams emulator, use aggregate3`)
+        }
+
+        const protocol = (await state).clone()
+        const results: { success: boolean, returnData: Hex }[] = []
+        let gas = intrinsic
+        for (const call of args[0]) {
+            const outcome = isAddressEqual(call.target, this.address)
+                ? await this.callProtocol(protocol, call.callData, sender)
+                : { success: true, returnData: "0x" as Hex, gas: BigInt(0) }
+            if (!outcome.success && !call.allowFailure) {
+                return {
+                    success: false,
+                    returnData: encodeErrorResult({ abi: errorStringAbi, errorName: "Error", args: ["Multicall3: call failed"] }),
+                    logs: [],
+                    gas,
+                }
+            }
+            gas += outcome.gas
+            results.push({ success: outcome.success, returnData: outcome.returnData })
+        }
+        return {
+            success: true,
+            returnData: encodeFunctionResult({ abi: multicall3Abi, functionName: "aggregate3", result: results }),
+            logs: [],
+            gas,
+        }
+    }
+
+    private getLogs(filter: LogFilter = {}): RpcLog[] {
+        let fromBlock: bigint
+        let toBlock: bigint
+        if (filter.blockHash) {
+            const block = this.blocks.find((candidate) => candidate.hash === filter.blockHash!.toLowerCase())
+            if (!block) {
+                throw new RpcError(INVALID_INPUT, `unknown block ${filter.blockHash}`)
+            }
+            fromBlock = toBlock = block.number
+        } else {
+            fromBlock = this.blockNumberOf(filter.fromBlock ?? "latest")
+            toBlock = this.blockNumberOf(filter.toBlock ?? "latest")
+        }
+
+        const limit = this.options.maxLogBlockRange
+        if (limit !== undefined && toBlock - fromBlock + BigInt(1) > BigInt(limit)) {
+            throw new RpcError(LIMIT_EXCEEDED, `block range exceeds the limit of ${limit} blocks`)
+        }
+
+        const addresses = filter.address === undefined ? undefined : ([] as Address[]).concat(filter.address)
+        const topics = filter.topics ?? []
+        return this.logs.filter((log) => {
+            const blockNumber = hexToBigInt(log.blockNumber!)
+            if (blockNumber < fromBlock || blockNumber > toBlock) {
+                return false
+            }
+            if (addresses && !addresses.some((address) => isAddressEqual(address, log.address))) {
+                return false
+            }
+            return topics.every((expected, i) => {
+                if (expected === null || expected === undefined) {
+                    return true
+                }
+                const topic = log.topics[i]?.toLowerCase()
+                return ([] as Hex[]).concat(expected).some((option) => option.toLowerCase() === topic)
+            })
+        })
+    }
+
+    private mineBlock(transactions: Hex[], gasUsed: bigint): Block {
+        const parent = this.head()
+        const block = this.buildBlock(parent.number + BigInt(1), parent.hash, parent.timestamp + BigInt(1), transactions, gasUsed)
+        this.blocks.push(block)
+        this.states.push(this.protocol)
+        return block
+    }
+
+    private buildBlock(number: bigint, parentHash: Hex, timestamp: bigint, transactions: Hex[], gasUsed: bigint): Block {
+        const hash = keccak256(encodeAbiParameters(
+            [{ type: "uint256" }, { type: "uint256" }, { type: "bytes32" }, { type: "uint256" }, { type: "bytes32[]" }],
+            [BigInt(this.chainId), number, parentHash, timestamp, transactions]
+        ))
+        return { number, hash, parentHash, timestamp, gasUsed, transactions }
+    }
+
+    private formatBlock(block: Block, full: boolean): Record<string, unknown> {
+        return {
+            number: numberToHex(block.number),
+            hash: block.hash,
+            parentHash: block.parentHash,
+            timestamp: numberToHex(block.timestamp),
+            gasLimit: numberToHex(this.blockGasLimit()),
+            gasUsed: numberToHex(block.gasUsed),
+            baseFeePerGas: numberToHex(this.baseFeePerGas()),
+            transactions: full
+                ? block.transactions.map((hash) => this.transactions.get(hash)!.transaction)
+                : block.transactions,
+            nonce: "0x0000000000000000",
+            difficulty: "0x0",
+            totalDifficulty: "0x0",
+            extraData: "0x",
+            size: "0x0",
+            miner: zeroAddress,
+            mixHash: zeroHash,
+            sha3Uncles: zeroHash,
+            stateRoot: zeroHash,
+            receiptsRoot: zeroHash,
+            transactionsRoot: zeroHash,
+            logsBloom: EMPTY_BLOOM,
+            uncles: [],
+        }
+    }
+
+    private blockAt(tag: string): Block | undefined {
+        const number = this.blockNumberOf(tag)
+        return number <= this.head().number ? this.blocks[Number(number)] : undefined
+    }
+
+    private stateAt(tag: string): Promise<StreamsProtocol> {
+        const number = this.blockNumberOf(tag)
+        if (number > this.head().number) {
+            throw new RpcError(INVALID_INPUT, `header not found for block ${number}`)
+        }
+        return this.states[Number(number)]
+    }
+
+    private blockNumberOf(tag: string): bigint {
+        switch (tag) {
+            case "earliest":
+                return BigInt(0)
+            case "latest":
+            case "pending":
+            case "safe":
+            case "finalized":
+                return this.head().number
+        }
+        return hexToBigInt(tag as Hex)
+    }
+
+    private head(): Block {
+        return this.blocks[this.blocks.length - 1]
+    }
+
+    private intrinsicGas(data: Hex): bigint {
+        let gas = TRANSACTION_GAS
+        const bytes = size(data)
+        for (let i = 0; i < bytes; i++) {
+            gas += data.slice(2 + i * 2, 4 + i * 2) === "00" ? GAS_PER_ZERO_BYTE : GAS_PER_NON_ZERO_BYTE
+        }
+        return BigInt(gas)
+    }
+
+    private revertError(data: Hex): RpcError {
+        return new RpcError(EXECUTION_REVERTED, "execution reverted", data === "0x" ? undefined : data)
+    }
+
+    private blockGasLimit(): bigint {
+        return this.options.blockGasLimit ?? DEFAULT_BLOCK_GAS_LIMIT
+    }
+
+    private baseFeePerGas(): bigint {
+        return this.options.baseFeePerGas ?? DEFAULT_BASE_FEE_PER_GAS
+    }
+
+    private maxPriorityFeePerGas(): bigint {
+        return this.options.maxPriorityFeePerGas ?? DEFAULT_MAX_PRIORITY_FEE_PER_GAS
+    }
+}
\ No newline at end of file
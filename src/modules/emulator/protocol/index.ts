@@ -0,0 +1,535 @@
+import {
+    Abi,
+    AbiEvent,
+    AbiParameter,
+    Address,
+    Hex,
+    encodeAbiParameters,
+    encodeEventTopics,
+    getAbiItem,
+    getAddress,
+    isAddressEqual,
+    keccak256,
+    size,
+    toHex,
+    zeroAddress,
+    zeroHash,
+} from "viem"
+import { EventParameter, EventSchema } from "@/types/streams"
+
+// The event topic occupies the first of the four topics a log can carry
+const MAX_NUM_EVM_INDEXED_PARAMS = 3
+
+const UPGRADE_INTERFACE_VERSION = "5.0.0"
+
+// Gas charged on top of the intrinsic cost of a transaction, loosely following the EVM schedule
+const GAS_PER_STORED_WORD = 20000
+const GAS_PER_LOG = 375
+const GAS_PER_LOG_TOPIC = 375
+const GAS_PER_LOG_BYTE = 8
+
+/**
+ * A custom error raised by the emulated protocol, encoded with the protocol ABI when returned to the caller
+ * @param errorName Name of the custom error in the protocol ABI
+ * @param errorArgs Arguments of the custom error
+ */
+export class ProtocolRevert extends Error {
+    public readonly errorName: string
+    public readonly errorArgs: readonly unknown[]
+
+    constructor(errorName: string, errorArgs: readonly unknown[] = []) {
+        super(`execution reverted: ${errorName}`)
+        this.name = "ProtocolRevert"
+        this.errorName = errorName
+        this.errorArgs = errorArgs
+    }
+}
+
+/**
+ * A log emitted by the emulated protocol
+ */
+export type ProtocolLog = {
+    topics: Hex[]
+    data: Hex
+}
+
+type DataSchema = {
+    schema: string
+    parentSchemaId: Hex
+    name: string
+}
+
+type PublisherData = {
+    data: Hex[]
+    // Index of each key incremented by one so that zero means the key was never written
+    indexes: Map<string, number>
+}
+
+type RegisteredEvent = {
+    id: string
+    params: EventParameter[]
+    eventTopic: Hex
+    origin: Address
+    open: boolean
+    emitters: Set<string>
+}
+
+type DataStreamArg = { id: Hex, schemaId: Hex, data: Hex }
+type EventStreamArg = { id: string, argumentTopics: readonly Hex[], data: Hex }
+type SchemaRegistrationArg = { schemaName: string, schema: string, parentSchemaId: Hex }
+type EventRegistrationArg = { id: string, schema: { params: readonly EventParameter[], eventTopic: Hex } }
+
+/**
+ * State and behaviour of the Streams protocol contract, executed in memory
+ * @dev Mirrors the checks and custom errors of the deployed contract so that calls revert the way they would on chain
+ * @dev A write that reverts part way leaves partial changes behind, callers execute writes against a copy from clone and keep it only on success
+ */
+export class StreamsProtocol {
+    private readonly abi: Abi
+    private readonly maxArrayLength: number
+    private owner: Address
+
+    private schemas = new Map<string, DataSchema>()
+    private schemaIds: Hex[] = []
+    private schemaNames = new Map<string, Hex>()
+    private publisherData = new Map<string, PublisherData>()
+    private events = new Map<string, RegisteredEvent>()
+    private eventIds: string[] = []
+    private eventTopics = new Map<string, string>()
+
+    // Logs and gas of the call currently executing
+    private logs: ProtocolLog[] = []
+    private gas = 0
+
+    /**
+     * @param abi Protocol application binary interface used to encode logs
+     * @param owner Owner of the protocol
+     * @param maxArrayLength Maximum number of items accepted by a single write
+     */
+    constructor(abi: Abi, owner: Address, maxArrayLength: number) {
+        this.abi = abi
+        this.owner = owner
+        this.maxArrayLength = maxArrayLength
+    }
+
+    /**
+     * Copy of the protocol that can be written to without affecting this one
+     * @returns Independent copy of the state
+     */
+    public clone(): StreamsProtocol {
+        const copy = new StreamsProtocol(this.abi, this.owner, this.maxArrayLength)
+        copy.schemas = new Map(this.schemas)
+        copy.schemaIds = [...this.schemaIds]
+        copy.schemaNames = new Map(this.schemaNames)
+        copy.publisherData = new Map(Array.from(this.publisherData, ([key, entry]) => [
+            key,
+            { data: [...entry.data], indexes: new Map(entry.indexes) },
+        ]))
+        copy.events = new Map(Array.from(this.events, ([id, event]) => [id, { ...event, emitters: new Set(event.emitters) }]))
+        copy.eventIds = [...this.eventIds]
+        copy.eventTopics = new Map(this.eventTopics)
+        return copy
+    }
+
+    /**
+     * Execute a protocol function
+     * @param functionName Function of the protocol ABI
+     * @param args Decoded arguments of the function
+     * @param sender Account the call is made from
+     * @returns The function result, the logs it emitted and the gas it used beyond the intrinsic cost
+     */
+    public call(functionName: string, args: readonly unknown[], sender: Address): { result: unknown, logs: ProtocolLog[], gas: number } {
+        this.logs = []
+        this.gas = 0
+        const result = this.dispatch(functionName, args, getAddress(sender))
+        return { result, logs: this.logs, gas: this.gas }
+    }
+
+    private dispatch(functionName: string, args: readonly unknown[], sender: Address): unknown {
+        switch (functionName) {
+            // Writes
+            case "registerSchemas":
+                return this.registerSchemas(args[0] as SchemaRegistrationArg[], sender)
+            case "esstores":
+                return this.esstores(args[0] as DataStreamArg[], sender)
+            case "emitEvents":
+                return this.emitEvents(args[0] as EventStreamArg[], sender)
+            case "publishDataAndEmitEvents":
+                return this.publishDataAndEmitEvents(args[0] as DataStreamArg[], args[1] as EventStreamArg[], sender)
+            case "registerEventSchemas":
+                return this.registerEventSchemas(args[0] as EventRegistrationArg[], sender)
+            case "manageEventEmitter":
+                return this.manageEventEmitter(args[0] as string, args[1] as Address, args[2] as boolean, sender)
+            case "setIsEventEmissionOpen":
+                return this.setIsEventEmissionOpen(args[0] as string, args[1] as boolean, sender)
+            case "transferOwnership":
+                return this.transferOwnership(args[0] as Address, sender)
+            case "renounceOwnership":
+                this.onlyOwner(sender)
+                return this.setOwner(zeroAddress)
+            case "initialize":
+                // The deployed contract sits behind an initialised proxy
+                throw new ProtocolRevert("InvalidInitialization")
+            case "upgradeToAndCall":
+                this.onlyOwner(sender)
+                // There is no code at any other address for the proxy to point at
+                throw new ProtocolRevert("ERC1967InvalidImplementation", [args[0]])
+
+            // Views
+            case "MAX_NUM_EVM_INDEXED_PARAMS":
+                return BigInt(MAX_NUM_EVM_INDEXED_PARAMS)
+            case "UPGRADE_INTERFACE_VERSION":
+                return UPGRADE_INTERFACE_VERSION
+            case "proxiableUUID":
+                // Only callable on the implementation, never through the proxy
+                throw new ProtocolRevert("UUPSUnauthorizedCallContext")
+            case "owner":
+                return this.owner
+            case "computeSchemaId":
+                return computeSchemaId(args[0] as string)
+            case "isSchemaRegistered":
+                return this.schemas.has(key(args[0] as Hex))
+            case "totalSchemasRegistered":
+                return BigInt(this.schemaIds.length)
+            case "getAllSchemas":
+                return this.schemaIds.map((schemaId) => this.schemas.get(key(schemaId))!.schema)
+            case "getSchema":
+                return this.getSchema(args[0] as bigint)
+            case "schemaReverseLookup":
+                return this.schemas.get(key(args[0] as Hex))?.schema ?? ""
+            case "parentSchemaId":
+                return this.schemas.get(key(args[0] as Hex))?.parentSchemaId ?? zeroHash
+            case "schemaIdToName":
+                return this.schemas.get(key(args[0] as Hex))?.name ?? ""
+            case "nameToSchemaId":
+                return this.schemaNames.get(args[0] as string) ?? zeroHash
+            case "totalPublisherDataForSchema":
+                return BigInt(this.dataOf(args[0] as Hex, args[1] as Address).data.length)
+            case "publisherDataIndex":
+                return BigInt(this.dataOf(args[0] as Hex, args[1] as Address).indexes.get(key(args[2] as Hex)) ?? 0)
+            case "publisherDataExists":
+                return this.dataOf(args[0] as Hex, args[1] as Address).indexes.has(key(args[2] as Hex))
+            case "getAllPublisherDataForSchema":
+                return this.dataOf(args[0] as Hex, args[1] as Address).data
+            case "getPublisherDataForSchemaAtIndex":
+                return this.getAtIndex(args[0] as Hex, args[1] as Address, args[2] as bigint)
+            case "getPublisherDataForSchemaInRange":
+                return this.getInRange(args[0] as Hex, args[1] as Address, args[2] as bigint, args[3] as bigint)
+            case "getLastPublishedDataForSchema":
+                return this.getLastN(args[0] as Hex, args[1] as Address, BigInt(1), "NoData")[0]
+            case "getLastNPublishedDataForSchema":
+                return this.getLastN(args[0] as Hex, args[1] as Address, args[2] as bigint, "InvalidRange")
+            case "getTotalNumberOfRegisteredEventSchemas":
+                return BigInt(this.eventIds.length)
+            case "getAllRegisteredEventIds":
+                return [...this.eventIds]
+            case "getEventIdAtIndex":
+                return this.getEventIdAtIndex(args[0] as bigint)
+            case "getEventSchemasById":
+                return (args[0] as string[]).map((id) => this.eventSchema(id))
+            case "eventIdFromTopic":
+                return this.eventTopics.get(key(args[0] as Hex)) ?? ""
+            case "topicRegistrationOrigin":
+                return this.eventByTopic(args[0] as Hex)?.origin ?? zeroAddress
+            case "totalTopicIndexedParams":
+                return BigInt(this.eventByTopic(args[0] as Hex)?.params.filter((param) => param.isIndexed).length ?? 0)
+            case "isEventEmissionOpen":
+                return this.eventByTopic(args[0] as Hex)?.open ?? false
+            case "isCallerAuthorisedEmitter": {
+                const event = this.eventByTopic(args[0] as Hex)
+                return event ? this.isAuthorisedEmitter(event, args[1] as Address) : false
+            }
+        }
+        throw new Error(`Unsupported protocol function ${functionName}`)
+    }
+
+    private registerSchemas(registrations: SchemaRegistrationArg[], sender: Address): void {
+        this.checkArrayLength(registrations.length)
+        for (const registration of registrations) {
+            if (registration.schema.length === 0) {
+                throw new ProtocolRevert("ZeroValue")
+            }
+
+            const schemaId = computeSchemaId(registration.schema)
+            if (this.schemas.has(key(schemaId))) {
+                throw new ProtocolRevert("SchemaAlreadyRegistered")
+            }
+            if (registration.parentSchemaId !== zeroHash) {
+                if (key(registration.parentSchemaId) === key(schemaId)) {
+                    throw new ProtocolRevert("InvalidSelfReference")
+                }
+                if (!this.schemas.has(key(registration.parentSchemaId))) {
+                    throw new ProtocolRevert("ParentSchemaNotRegistered")
+                }
+            }
+            if (registration.schemaName.length > 0 && this.schemaNames.has(registration.schemaName)) {
+                throw new ProtocolRevert("NameAlreadyUsed")
+            }
+
+            this.schemas.set(key(schemaId), {
+                schema: registration.schema,
+                parentSchemaId: registration.parentSchemaId,
+                name: registration.schemaName,
+            })
+            this.schemaIds.push(schemaId)
+            if (registration.schemaName.length > 0) {
+                this.schemaNames.set(registration.schemaName, schemaId)
+            }
+            this.store(toHex(registration.schema))
+            this.emit("DataSchemaRegistered", { schemaId, publisher: sender })
+        }
+    }
+
+    private esstores(dataStreams: DataStreamArg[], sender: Address): void {
+        this.checkArrayLength(dataStreams.length)
+        for (const stream of dataStreams) {
+            if (!this.schemas.has(key(stream.schemaId))) {
+                throw new ProtocolRevert("SchemaNotRegistered")
+            }
+            if (size(stream.data) === 0) {
+                throw new ProtocolRevert("InvalidDataLength")
+            }
+
+            // Writing a key again replaces its data in place
+            const entry = this.dataOf(stream.schemaId, sender, true)
+            const indexPlusOne = entry.indexes.get(key(stream.id))
+            if (indexPlusOne) {
+                entry.data[indexPlusOne - 1] = stream.data
+            } else {
+                entry.data.push(stream.data)
+                entry.indexes.set(key(stream.id), entry.data.length)
+            }
+            this.store(stream.data)
+            this.emit("ESStoreEvent", { schemaId: stream.schemaId, dataId: stream.id, publisher: sender })
+        }
+    }
+
+    private emitEvents(eventStreams: EventStreamArg[], sender: Address): boolean {
+        this.checkArrayLength(eventStreams.length)
+        for (const stream of eventStreams) {
+            const event = this.events.get(stream.id)
+            if (!event) {
+                throw new ProtocolRevert("EventSchemaNotRegistered")
+            }
+            if (stream.argumentTopics.length > MAX_NUM_EVM_INDEXED_PARAMS) {
+                throw new ProtocolRevert("TooManyTopics")
+            }
+            if (stream.argumentTopics.length !== event.params.filter((param) => param.isIndexed).length) {
+                throw new ProtocolRevert("IncorrectNumberOfTopics")
+            }
+            if (!this.isAuthorisedEmitter(event, sender)) {
+                throw new ProtocolRevert("Unauthorized")
+            }
+            this.log([event.eventTopic, ...stream.argumentTopics], stream.data)
+        }
+        return true
+    }
+
+    private publishDataAndEmitEvents(dataStreams: DataStreamArg[], eventStreams: EventStreamArg[], sender: Address): void {
+        // Both halves are required, esstores and emitEvents cover the cases where one is empty
+        if (dataStreams.length === 0 || eventStreams.length === 0) {
+            throw new ProtocolRevert("NoCalldata")
+        }
+        this.esstores(dataStreams, sender)
+        this.emitEvents(eventStreams, sender)
+    }
+
+    private registerEventSchemas(registrations: EventRegistrationArg[], sender: Address): void {
+        this.checkArrayLength(registrations.length)
+        for (const { id, schema } of registrations) {
+            if (id.length === 0) {
+                throw new ProtocolRevert("ZeroValue")
+            }
+            if (schema.eventTopic === zeroHash) {
+                throw new ProtocolRevert("InvalidTopic")
+            }
+            if (schema.params.filter((param) => param.isIndexed).length > MAX_NUM_EVM_INDEXED_PARAMS) {
+                throw new ProtocolRevert("TooManyIndexedParams")
+            }
+            if (this.events.has(id)) {
+                throw new ProtocolRevert("EventSchemaAlreadyRegistered")
+            }
+            if (this.eventTopics.has(key(schema.eventTopic))) {
+                throw new ProtocolRevert("EventTopicAlreadyRegistered")
+            }
+
+            this.events.set(id, {
+                id,
+                params: schema.params.map(({ name, paramType, isIndexed }) => ({ name, paramType, isIndexed })),
+                eventTopic: schema.eventTopic,
+                origin: sender,
+                open: false,
+                emitters: new Set(),
+            })
+            this.eventIds.push(id)
+            this.eventTopics.set(key(schema.eventTopic), id)
+            this.store(toHex(JSON.stringify(schema.params)))
+            this.emit("EventSchemaRegistered", { eventTopic: schema.eventTopic, id })
+        }
+    }
+
+    private manageEventEmitter(id: string, emitter: Address, isEmitter: boolean, sender: Address): void {
+        const event = this.manageableEvent(id, sender)
+        if (isAddressEqual(emitter, zeroAddress)) {
+            throw new ProtocolRevert("ZeroValue")
+        }
+
+        if (isEmitter) {
+            event.emitters.add(key(emitter))
+        } else {
+            event.emitters.delete(key(emitter))
+        }
+        this.store(emitter)
+        this.emit("EmitterUpdated", { eventTopic: event.eventTopic, emitter, isEmitter })
+    }
+
+    private setIsEventEmissionOpen(id: string, isOpen: boolean, sender: Address): void {
+        const event = this.manageableEvent(id, sender)
+        event.open = isOpen
+        this.store(toHex(isOpen))
+        this.emit("IsEventEmissionOpen", { eventTopic: event.eventTopic, isOpen })
+    }
+
+    private transferOwnership(newOwner: Address, sender: Address): void {
+        this.onlyOwner(sender)
+        if (isAddressEqual(newOwner, zeroAddress)) {
+            throw new ProtocolRevert("OwnableInvalidOwner", [zeroAddress])
+        }
+        this.setOwner(getAddress(newOwner))
+    }
+
+    private setOwner(newOwner: Address): void {
+        const previousOwner = this.owner
+        this.owner = newOwner
+        this.store(newOwner)
+        this.emit("OwnershipTransferred", { previousOwner, newOwner })
+    }
+
+    private getSchema(idx: bigint): [Hex, Hex, string] {
+        if (idx >= BigInt(this.schemaIds.length)) {
+            throw new ProtocolRevert("InvalidIndex")
+        }
+        const schemaId = this.schemaIds[Number(idx)]
+        const { parentSchemaId, schema } = this.schemas.get(key(schemaId))!
+        return [schemaId, parentSchemaId, schema]
+    }
+
+    private getAtIndex(schemaId: Hex, publisher: Address, idx: bigint): Hex {
+        const { data } = this.dataOf(schemaId, publisher)
+        if (idx >= BigInt(data.length)) {
+            throw new ProtocolRevert("InvalidIndex")
+        }
+        return data[Number(idx)]
+    }
+
+    private getInRange(schemaId: Hex, publisher: Address, start: bigint, end: bigint): Hex[] {
+        const { data } = this.dataOf(schemaId, publisher)
+        if (start >= end || end > BigInt(data.length)) {
+            throw new ProtocolRevert("InvalidRange")
+        }
+        return data.slice(Number(start), Number(end))
+    }
+
+    private getLastN(schemaId: Hex, publisher: Address, n: bigint, tooFew: string): Hex[] {
+        const { data } = this.dataOf(schemaId, publisher)
+        if (data.length === 0) {
+            throw new ProtocolRevert("NoData")
+        }
+        if (n === BigInt(0)) {
+            throw new ProtocolRevert("ZeroValue")
+        }
+        if (n > BigInt(data.length)) {
+            throw new ProtocolRevert(tooFew)
+        }
+        return data.slice(data.length - Number(n))
+    }
+
+    private getEventIdAtIndex(idx: bigint): string {
+        if (idx >= BigInt(this.eventIds.length)) {
+            throw new ProtocolRevert("InvalidIndex")
+        }
+        return this.eventIds[Number(idx)]
+    }
+
+    private eventSchema(id: string): EventSchema {
+        const event = this.events.get(id)
+        return event ? { params: event.params, eventTopic: event.eventTopic } : { params: [], eventTopic: zeroHash }
+    }
+
+    private eventByTopic(topic: Hex): RegisteredEvent | undefined {
+        const id = this.eventTopics.get(key(topic))
+        return id === undefined ? undefined : this.events.get(id)
+    }
+
+    private manageableEvent(id: string, sender: Address): RegisteredEvent {
+        const event = this.events.get(id)
+        if (!event) {
+            throw new ProtocolRevert("EventSchemaNotRegistered")
+        }
+        // The account that registered the event and the protocol owner manage who can emit it
+        if (!isAddressEqual(event.origin, sender) && !isAddressEqual(this.owner, sender)) {
+            throw new ProtocolRevert("Unauthorized")
+        }
+        return event
+    }
+
+    private isAuthorisedEmitter(event: RegisteredEvent, caller: Address): boolean {
+        return event.open || isAddressEqual(event.origin, caller) || event.emitters.has(key(caller))
+    }
+
+    private onlyOwner(sender: Address): void {
+        if (!isAddressEqual(this.owner, sender)) {
+            throw new ProtocolRevert("OwnableUnauthorizedAccount", [sender])
+        }
+    }
+
+    private checkArrayLength(length: number): void {
+        if (length === 0) {
+            throw new ProtocolRevert("NoCalldata")
+        }
+        if (length > this.maxArrayLength) {
+            throw new ProtocolRevert("MaxArrayLengthExceeded")
+        }
+    }
+
+    private dataOf(schemaId: Hex, publisher: Address, create = false): PublisherData {
+        const id = `${key(schemaId)}:${key(publisher)}`
+        const entry = this.publisherData.get(id) ?? { data: [], indexes: new Map<string, number>() }
+        if (create) {
+            this.publisherData.set(id, entry)
+        }
+        return entry
+    }
+
+    private store(value: Hex): void {
+        this.gas += Math.max(1, Math.ceil(size(value) / 32)) * GAS_PER_STORED_WORD
+    }
+
+    private emit(eventName: string, args: Record<string, unknown>): void {
+        const event = getAbiItem({ abi: this.abi, name: eventName }) as AbiEvent
+        const topics = encodeEventTopics({ abi: [event], eventName, args } as Parameters<typeof encodeEventTopics>[0]) as Hex[]
+        const nonIndexed = event.inputs.filter((input) => !input.indexed)
+        const data = nonIndexed.length === 0
+            ? "0x"
+            : encodeAbiParameters(nonIndexed as AbiParameter[], nonIndexed.map((input) => args[input.name!]))
+        this.log(topics, data)
+    }
+
+    private log(topics: Hex[], data: Hex): void {
+        this.gas += GAS_PER_LOG + GAS_PER_LOG_TOPIC * topics.length + GAS_PER_LOG_BYTE * size(data)
+        this.logs.push({ topics, data })
+    }
+}
+
+/**
+ * Schema id the protocol assigns to a schema string
+ * @param schema Raw schema string
+ * @returns keccak256 hash of the schema string
+ */
+export function computeSchemaId(schema: string): Hex {
+    return keccak256(toHex(schema))
+}
+
+function key(value: string): string {
+    return value.toLowerCase()
+}
\ No newline at end of file
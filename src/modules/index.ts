@@ -1 +1,13 @@
-export { Streams, SchemaEncoder } from "@/modules/streams"
\ No newline at end of file
+export {
+    Streams,
+    SchemaEncoder,
+    defineSchema,
+    Publisher,
+    StreamHandle,
+    encodeEventStream,
+    decodeEventStream,
+    defineKey,
+    assertNoKeyCollisions,
+    findKeyCollisions,
+} from "@/modules/streams"
+export { StreamsEmulator } from "@/modules/emulator"
\ No newline at end of file
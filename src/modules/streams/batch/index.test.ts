@@ -0,0 +1,127 @@
+import { createPublicClient, createWalletClient, Hex, toHex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { SDK } from "@/index"
+import { StreamsEmulator } from "@/modules/emulator"
+import { defineSchema } from "@/modules/streams/schema"
+import { StreamsContractError, StreamsErrorCode, StreamsValidationError } from "@/services/errors"
+import { BatchChunk, DataStream, TransactionHandle, WriteResult } from "@/types/streams"
+import { planChunks, runChunks } from "."
+
+const account = privateKeyToAccount(`0x${"55".repeat(32)}`)
+const dataStreams: DataStream[] = Array.from({ length: 10 }, (_, i) => ({
+    id: toHex(i, { size: 32 }),
+    schemaId: toHex(1, { size: 32 }),
+    data: "0x01",
+}))
+
+// Every stream costs 1000 gas on top of a fixed 500
+const estimate = async (chunk: Omit<BatchChunk, "gas">) => BigInt(500 + 1000 * (chunk.dataStreams.length + chunk.eventStreams.length))
+
+function sizes(chunks: BatchChunk[]) {
+    return chunks.map((chunk) => chunk.dataStreams.length + chunk.eventStreams.length)
+}
+
+describe("planChunks", () => {
+    it("bounds chunks by item count and estimated gas", async () => {
+        expect(sizes(await planChunks(dataStreams, [], { maxItems: 4, maxGas: BigInt(1000000) }, estimate))).toEqual([4, 4, 2])
+        const byGas = await planChunks(dataStreams, [], { maxItems: 100, maxGas: BigInt(3600) }, estimate)
+        expect(sizes(byGas)).toEqual([3, 2, 2, 2, 1])
+        expect(byGas.every((chunk) => chunk.gas <= BigInt(3600))).toBe(true)
+    })
+
+    it("places data streams before event streams", async () => {
+        const events = [{ id: "Ping", argumentTopics: [], data: "0x" as Hex }]
+        const chunks = await planChunks(dataStreams.slice(0, 3), events, { maxItems: 2, maxGas: BigInt(1000000) }, estimate)
+        expect(chunks.map((chunk) => [chunk.dataStreams.length, chunk.eventStreams.length])).toEqual([[2, 0], [1, 1]])
+    })
+
+    it("halves chunks the contract rejects for their array length", async () => {
+        const limited = async (chunk: Omit<BatchChunk, "gas">) => {
+            if (chunk.dataStreams.length > 3) {
+                throw new StreamsContractError(StreamsErrorCode.MaxArrayLengthExceeded, "MaxArrayLengthExceeded")
+            }
+            return estimate(chunk)
+        }
+        expect(sizes(await planChunks(dataStreams, [], { maxItems: 8, maxGas: BigInt(1000000) }, limited))).toEqual([2, 2, 2, 2, 2])
+    })
+
+    it("rejects empty input and streams that can never fit", async () => {
+        await expect(planChunks([], [], { maxItems: 4, maxGas: BigInt(1000000) }, estimate)).rejects.toBeInstanceOf(StreamsValidationError)
+        await expect(planChunks(dataStreams, [], { maxItems: 4, maxGas: BigInt(1000) }, estimate)).rejects.toBeInstanceOf(StreamsValidationError)
+    })
+})
+
+describe("runChunks", () => {
+    function chunks(count: number): BatchChunk[] {
+        return Array.from({ length: count }, (_, index) => ({ index, dataStreams: [dataStreams[index]], eventStreams: [], gas: BigInt(0) }))
+    }
+
+    // Sends resolve immediately and confirmations shortly after, recording how many were pending at once
+    function sender(fail?: number) {
+        let pending = 0
+        let maxPending = 0
+        const sent: number[] = []
+        const send = async (chunk: BatchChunk): Promise<TransactionHandle> => {
+            sent.push(chunk.index)
+            pending++
+            maxPending = Math.max(maxPending, pending)
+            const hash = toHex(chunk.index, { size: 32 })
+            return {
+                hash,
+                wait: async () => {
+                    await new Promise((resolve) => setTimeout(resolve, 5))
+                    pending--
+                    return { hash, status: chunk.index === fail ? "reverted" : "success" } as WriteResult
+                },
+            }
+        }
+        return { send, sent, maxPending: () => maxPending }
+    }
+
+    it("keeps at most the requested number of chunks awaiting confirmation", async () => {
+        const { send, sent, maxPending } = sender()
+        const progress: number[] = []
+        const results = await runChunks(chunks(6), send, { concurrency: 2, onProgress: ({ completed }) => progress.push(completed) })
+        expect(results.map((result) => result.status)).toEqual(Array(6).fill("success"))
+        expect(sent).toEqual([0, 1, 2, 3, 4, 5])
+        expect(maxPending()).toBe(2)
+        expect(progress).toEqual([1, 2, 3, 4, 5, 6])
+    })
+
+    it("skips the chunks after a failure", async () => {
+        const { send } = sender(1)
+        const results = await runChunks(chunks(4), send, { concurrency: 1 })
+        expect(results.map((result) => result.status)).toEqual(["success", "failed", "skipped", "skipped"])
+        expect(results[1].error?.code).toBe(StreamsErrorCode.ContractReverted)
+    })
+})
+
+describe("batched writes", () => {
+    function setup() {
+        const emulator = new StreamsEmulator({ maxArrayLength: 3 })
+        return new SDK({
+            public: createPublicClient({ chain: emulator.chain, transport: emulator.transport }),
+            wallet: createWalletClient({ chain: emulator.chain, account, transport: emulator.transport }),
+        }, { errorMode: "throw", logLevel: "silent" })
+    }
+
+    it("writes every stream in chunks the contract accepts", async () => {
+        const sdk = setup()
+        const counter = defineSchema("uint64 n")
+        await (await sdk.streams.registerDataSchemas([{ schemaName: "counter", schema: counter.schema }])).wait()
+        const schemaId = await sdk.streams.computeSchemaId(counter.schema)
+
+        const records = Array.from({ length: 7 }, (_, n) => ({ id: toHex(n, { size: 32 }), schemaId, data: counter.encode({ n: BigInt(n) }) }))
+        const result = await sdk.streams.set(records, { batch: { maxItems: 8, concurrency: 2 } })
+        expect(result.success).toBe(true)
+        expect(result.chunks.every((chunk) => chunk.dataStreams.length <= 3)).toBe(true)
+        expect(await sdk.streams.totalPublisherDataForSchema(schemaId, account.address)).toBe(BigInt(7))
+    })
+
+    it("rejects empty batches and dry runs", async () => {
+        const sdk = setup()
+        await expect(sdk.streams.set([], { batch: {} })).rejects.toMatchObject({ code: StreamsErrorCode.InvalidArgument })
+        await expect(sdk.streams.setAndEmitEvents([], [], { batch: {} })).rejects.toBeInstanceOf(StreamsValidationError)
+        await expect(sdk.streams.set(dataStreams, { batch: {}, dryRun: true })).rejects.toThrow(/dryRun cannot be combined with batch/)
+    })
+})
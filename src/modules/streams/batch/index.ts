@@ -0,0 +1,221 @@
+import {
+    BatchChunk,
+    BatchChunkResult,
+    BatchProgress,
+    BatchWriteOptions,
+    DataStream,
+    EventStream,
+    TransactionHandle,
+    WaitOptions,
+} from "@/types/streams"
+import {
+    StreamsContractError,
+    StreamsError,
+    StreamsErrorCode,
+    StreamsValidationError,
+    toStreamsError,
+} from "@/services/errors"
+
+/**
+ * Bounds applied when splitting a batch into chunks
+ * @param maxItems Maximum number of data and event streams in one chunk
+ * @param maxGas Maximum estimated gas of one chunk
+ */
+export type ChunkLimits = {
+    maxItems: number
+    maxGas: bigint
+}
+
+/**
+ * Options applied when sending planned chunks
+ * @param concurrency Number of chunk transactions that may be awaiting confirmation at once
+ * @param wait Confirmations required before a chunk is considered written
+ * @param onProgress Called every time a chunk succeeds or fails
+ */
+export type ChunkRunOptions = {
+    concurrency: number
+    wait?: WaitOptions
+    onProgress?: (progress: BatchProgress) => void
+}
+
+// Estimates are scaled down by this factor when shrinking a chunk so the next estimate lands under the limit
+const GAS_HEADROOM = 0.9
+
+/**
+ * Reject batched writes that cannot be planned before any request is made
+ * @dev A dry run only simulates a single transaction so it cannot describe the chunks of a batch
+ * @param dataStreams Data streams to write
+ * @param eventStreams Event streams to emit
+ * @param options Write options carrying the batch configuration
+ */
+export function validateBatchWrite(dataStreams: DataStream[], eventStreams: EventStream[], options: BatchWriteOptions): void {
+    if (!options.batch) {
+        return
+    }
+    if (options.dryRun) {
+        throw new StreamsValidationError(
+            StreamsErrorCode.InvalidArgument,
+            "dryRun cannot be combined with batch, use simulate to check every chunk before it is sent"
+        )
+    }
+    if (dataStreams.length + eventStreams.length === 0) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "Batches need at least one data or event stream")
+    }
+    if (options.batch.maxItems !== undefined && options.batch.maxItems < 1) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "maxItems must be at least 1")
+    }
+    if (options.batch.maxGas !== undefined && options.batch.maxGas <= BigInt(0)) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "maxGas must be greater than 0")
+    }
+    if (options.batch.concurrency !== undefined && options.batch.concurrency < 1) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "concurrency must be at least 1")
+    }
+}
+
+/**
+ * Split data and event streams into chunks bounded by item count and estimated gas
+ * @dev Data streams are placed before event streams so that state is written before any event referencing it is emitted
+ * @dev The gas used per item by each chunk calibrates the size of the next chunk, which is then confirmed by estimation
+ * @param dataStreams Data streams to write
+ * @param eventStreams Event streams to emit
+ * @param limits Maximum items and gas per chunk
+ * @param estimateGas Estimates the gas of sending a candidate chunk
+ * @returns Chunks in the order they should be sent
+ */
+export async function planChunks(
+    dataStreams: DataStream[],
+    eventStreams: EventStream[],
+    limits: ChunkLimits,
+    estimateGas: (chunk: Omit<BatchChunk, "gas">) => Promise<bigint>
+): Promise<BatchChunk[]> {
+    if (limits.maxItems < 1) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "maxItems must be at least 1")
+    }
+    if (limits.maxGas <= BigInt(0)) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "maxGas must be greater than 0")
+    }
+    if (dataStreams.length + eventStreams.length === 0) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "Batches need at least one data or event stream")
+    }
+
+    const chunks: BatchChunk[] = []
+    const total = dataStreams.length + eventStreams.length
+    const slice = (start: number, end: number): Omit<BatchChunk, "gas"> => ({
+        index: chunks.length,
+        dataStreams: dataStreams.slice(start, end),
+        eventStreams: eventStreams.slice(Math.max(start - dataStreams.length, 0), Math.max(end - dataStreams.length, 0)),
+    })
+
+    let maxItems = limits.maxItems
+    let gasPerItem: number | undefined
+    let start = 0
+    while (start < total) {
+        let size = Math.min(maxItems, total - start)
+        if (gasPerItem !== undefined) {
+            size = Math.max(1, Math.min(size, Math.floor(Number(limits.maxGas) * GAS_HEADROOM / gasPerItem)))
+        }
+
+        for (;;) {
+            const candidate = slice(start, start + size)
+            let gas: bigint
+            try {
+                gas = await estimateGas(candidate)
+            } catch (e) {
+                // The contract caps array lengths independently of gas so halve the chunk until it is accepted
+                const error = toStreamsError(e)
+                if (error.code === StreamsErrorCode.MaxArrayLengthExceeded && size > 1) {
+                    maxItems = size = Math.floor(size / 2)
+                    continue
+                }
+                throw error
+            }
+
+            if (gas <= limits.maxGas) {
+                chunks.push({ ...candidate, gas })
+                gasPerItem = Number(gas) / size
+                break
+            }
+            if (size === 1) {
+                throw new StreamsValidationError(
+                    StreamsErrorCode.InvalidArgument,
+                    `Stream at position ${start} needs an estimated ${gas} gas which exceeds the chunk limit of ${limits.maxGas}`
+                )
+            }
+            size = Math.max(1, Math.min(size - 1, Math.floor(size * Number(limits.maxGas) * GAS_HEADROOM / Number(gas))))
+        }
+
+        start += size
+    }
+
+    return chunks
+}
+
+/**
+ * Send chunks one after the other, allowing a bounded number to await confirmation at the same time
+ * @dev Transactions are always submitted sequentially so that wallets assign nonces in chunk order
+ * @dev Once a chunk fails no further chunks are sent and the remaining chunks are reported as skipped
+ * @param chunks Chunks to send in order
+ * @param send Sends the transaction for a single chunk
+ * @param options Concurrency, confirmation and progress options
+ * @returns Outcome of every chunk in the order supplied
+ */
+export async function runChunks(
+    chunks: BatchChunk[],
+    send: (chunk: BatchChunk) => Promise<TransactionHandle>,
+    options: ChunkRunOptions
+): Promise<BatchChunkResult[]> {
+    if (options.concurrency < 1) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "concurrency must be at least 1")
+    }
+
+    const results: BatchChunkResult[] = chunks.map((chunk) => ({ ...chunk, status: "skipped" }))
+    const inFlight = new Set<Promise<void>>()
+    let completed = 0
+    let failed = false
+
+    const settle = (result: BatchChunkResult, error?: StreamsError) => {
+        if (error) {
+            result.status = "failed"
+            result.error = error
+            failed = true
+        } else {
+            result.status = "success"
+        }
+        completed++
+        options.onProgress?.({ chunk: result, completed, total: results.length })
+    }
+
+    for (const result of results) {
+        while (inFlight.size >= options.concurrency) {
+            await Promise.race(inFlight)
+        }
+        if (failed) {
+            break
+        }
+
+        let handle: TransactionHandle
+        try {
+            handle = await send(result)
+        } catch (e) {
+            settle(result, toStreamsError(e))
+            break
+        }
+        result.hash = handle.hash
+
+        const pending: Promise<void> = handle.wait(options.wait)
+            .then((written) => {
+                result.result = written
+                settle(result, written.status === "reverted"
+                    ? new StreamsContractError(StreamsErrorCode.ContractReverted, `Chunk ${result.index} transaction ${written.hash} reverted`)
+                    : undefined)
+            })
+            .catch((e) => settle(result, toStreamsError(e)))
+            .finally(() => {
+                inFlight.delete(pending)
+            })
+        inFlight.add(pending)
+    }
+
+    await Promise.all(inFlight)
+    return results
+}
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { createPublicClient, createWalletClient, custom, Hex, hexToBigInt, keccak256, Log, pad, toHex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { SDK } from "@/index"
+import { StreamsEmulator } from "@/modules/emulator"
+import { defineSchema } from "@/modules/streams/schema"
+import { PublisherIndex, StoreLogSource } from "."
+
+const alice = "0x00000000000000000000000000000000000A11cE"
+const bob = "0x0000000000000000000000000000000000000B0b"
+
+// A chain of 100 blocks whose writes and block hashes can be replaced from any block on, as a reorg would
+function chain() {
+    let fork = 0
+    let writes: { blockNumber: bigint, publisher: Hex }[] = []
+    const hash = (blockNumber: bigint, forkedAt: number) => keccak256(toHex(`${blockNumber}:${blockNumber >= forkedAt ? fork : 0}`))
+    let forkedAt = Infinity
+    const reads: [number, number][] = []
+
+    const source: StoreLogSource = {
+        read: async (fromBlock, toBlock, onPage) => {
+            reads.push([Number(fromBlock), Number(toBlock)])
+            onPage(writes
+                .filter(({ blockNumber }) => blockNumber >= fromBlock && blockNumber <= toBlock)
+                .map(({ blockNumber, publisher }) => ({
+                    blockNumber,
+                    blockHash: hash(blockNumber, forkedAt),
+                    removed: false,
+                    topics: [keccak256("0x"), pad("0x01"), pad("0x02"), pad(publisher)],
+                }) as unknown as Log))
+        },
+        getBlockHash: async (blockNumber) => blockNumber > BigInt(100) ? null : hash(blockNumber, forkedAt),
+    }
+
+    return {
+        source,
+        reads,
+        write(blockNumber: number, publisher: Hex) {
+            writes.push({ blockNumber: BigInt(blockNumber), publisher })
+        },
+        reorg(from: number, replacement: [number, Hex][]) {
+            fork++
+            forkedAt = from
+            writes = writes.filter(({ blockNumber }) => blockNumber < BigInt(from))
+            replacement.forEach(([blockNumber, publisher]) => writes.push({ blockNumber: BigInt(blockNumber), publisher }))
+        },
+    }
+}
+
+describe("PublisherIndex", () => {
+    it("only reads blocks outside the range already scanned", async () => {
+        const { source, reads, write } = chain()
+        write(10, alice)
+        write(20, bob)
+        write(30, alice)
+        const index = new PublisherIndex()
+
+        expect((await index.scan("schema", BigInt(15), BigInt(25), source)).publishers).toEqual([
+            { publisher: bob, firstSeenBlock: BigInt(20), lastSeenBlock: BigInt(20), writes: 1 },
+        ])
+        const scan = await index.scan("schema", BigInt(1), BigInt(40), source)
+        expect(reads).toEqual([[15, 25], [1, 14], [26, 40]])
+        expect(scan).toEqual({
+            fromBlock: BigInt(1),
+            toBlock: BigInt(40),
+            publishers: [
+                { publisher: alice, firstSeenBlock: BigInt(10), lastSeenBlock: BigInt(30), writes: 2 },
+                { publisher: bob, firstSeenBlock: BigInt(20), lastSeenBlock: BigInt(20), writes: 1 },
+            ],
+        })
+
+        await index.scan("schema", BigInt(1), BigInt(40), source)
+        expect(reads.length).toBe(3)
+    })
+
+    it("reads the blocks a reorg replaced again", async () => {
+        const { source, reads, write, reorg } = chain()
+        write(10, alice)
+        write(45, alice)
+        write(48, bob)
+        const index = new PublisherIndex()
+        await index.scan("schema", BigInt(1), BigInt(50), source, 16)
+
+        reorg(46, [[47, alice]])
+        const scan = await index.scan("schema", BigInt(1), BigInt(60), source, 16)
+        // Block 45 is still on chain so reading starts right after it
+        expect(reads).toEqual([[1, 50], [46, 60]])
+        expect(scan.publishers).toEqual([
+            { publisher: alice, firstSeenBlock: BigInt(10), lastSeenBlock: BigInt(47), writes: 3 },
+        ])
+    })
+
+    it("reads every recent block again when none of them is left", async () => {
+        const { source, reads, write, reorg } = chain()
+        write(10, alice)
+        write(45, bob)
+        const index = new PublisherIndex()
+        await index.scan("schema", BigInt(1), BigInt(50), source, 16)
+
+        // Blocks up to 34 are deeper than the reorg depth and kept as they are
+        reorg(40, [[41, alice]])
+        const scan = await index.scan("schema", BigInt(1), BigInt(50), source, 16)
+        expect(reads).toEqual([[1, 50], [35, 50]])
+        expect(scan.publishers).toEqual([
+            { publisher: alice, firstSeenBlock: BigInt(10), lastSeenBlock: BigInt(41), writes: 2 },
+        ])
+    })
+
+    it("keeps the previous tally when a scan fails", async () => {
+        const { source, write } = chain()
+        write(10, alice)
+        write(30, alice)
+        const index = new PublisherIndex()
+        await index.scan("schema", BigInt(1), BigInt(20), source)
+
+        const failing: StoreLogSource = { ...source, read: async () => Promise.reject(new Error("unavailable")) }
+        await expect(index.scan("schema", BigInt(1), BigInt(40), failing)).rejects.toThrow("unavailable")
+        expect((await index.scan("schema", BigInt(1), BigInt(40), source)).publishers).toEqual([
+            { publisher: alice, firstSeenBlock: BigInt(10), lastSeenBlock: BigInt(30), writes: 2 },
+        ])
+    })
+})
+
+describe("getPublishersForSchema", () => {
+    it("discovers the publishers of a schema incrementally", async () => {
+        const emulator = new StreamsEmulator()
+        const ranges: [bigint, bigint][] = []
+        const transport = custom({
+            request: ({ method, params }) => {
+                if (method === "eth_getLogs") {
+                    const [{ fromBlock, toBlock }] = params as [{ fromBlock: Hex, toBlock: Hex }]
+                    ranges.push([hexToBigInt(fromBlock), hexToBigInt(toBlock)])
+                }
+                return emulator.request(method, params)
+            },
+        }, { retryCount: 0 })
+        const publicClient = createPublicClient({ chain: emulator.chain, transport })
+        const sdks = [`0x${"77".repeat(32)}`, `0x${"88".repeat(32)}`].map((key) => new SDK({
+            public: publicClient,
+            wallet: createWalletClient({ chain: emulator.chain, account: privateKeyToAccount(key as Hex), transport }),
+        }, { errorMode: "throw", logLevel: "silent" }))
+
+        const counter = defineSchema("uint64 n")
+        await (await sdks[0].streams.registerDataSchemas([{ schemaName: "counter", schema: counter.schema }])).wait()
+        const schemaId = await sdks[0].streams.computeSchemaId(counter.schema)
+        const write = async (sdk: SDK<"throw">, n: number) => {
+            await (await sdk.streams.set([{ id: toHex(n, { size: 32 }), schemaId, data: counter.encode({ n: BigInt(n) }) }])).wait()
+        }
+
+        await write(sdks[0], 1)
+        const first = await sdks[0].streams.getPublishersForSchema(schemaId, { fromBlock: BigInt(0) })
+        expect(first.publishers.map(({ writes }) => writes)).toEqual([1])
+
+        await write(sdks[1], 2)
+        await write(sdks[0], 3)
+        const second = await sdks[0].streams.getPublishersForSchema(schemaId, { fromBlock: BigInt(0) })
+        expect(second.publishers.map(({ writes }) => writes)).toEqual([2, 1])
+        expect(ranges).toEqual([[BigInt(0), first.toBlock], [first.toBlock + BigInt(1), second.toBlock]])
+    })
+})
@@ -0,0 +1,189 @@
+import { Hex, Log, getAddress, slice } from "viem"
+import { PublisherActivity, PublisherScan } from "@/types/streams"
+import { DEFAULT_REORG_DEPTH } from "@/constants"
+
+type TrackedBlock = {
+    blockNumber: bigint
+    blockHash: Hex
+    logs: Log[]
+}
+
+type ScanState = {
+    fromBlock: bigint
+    toBlock: bigint
+    // Blocks up to here are deeper than the reorg depth and only kept as a tally
+    settledTo: bigint
+    settled: Map<string, PublisherActivity>
+    // Newer blocks with logs, and the last block scanned, kept with their hash so a reorg can be rolled back
+    recent: TrackedBlock[]
+}
+
+/**
+ * Reads the ESStoreEvent logs of a schema over a block range, delivering them page by page
+ */
+export type StoreLogReader = (fromBlock: bigint, toBlock: bigint, onPage: (logs: Log[]) => void) => Promise<void>
+
+/**
+ * Chain access needed by a scan
+ * @param read Reads the logs of the blocks not yet scanned
+ * @param getBlockHash Hash of a block currently on chain, or null when there is no such block
+ */
+export type StoreLogSource = {
+    read: StoreLogReader
+    getBlockHash: (blockNumber: bigint) => Promise<Hex | null>
+}
+
+function cloneTally(tally: Map<string, PublisherActivity>): Map<string, PublisherActivity> {
+    return new Map(Array.from(tally, ([address, activity]) => [address, { ...activity }]))
+}
+
+function record(tally: Map<string, PublisherActivity>, logs: Log[]): void {
+    for (const log of logs) {
+        const topic = log.topics[3]
+        if (!topic || log.blockNumber === null) {
+            continue
+        }
+
+        const publisher = getAddress(slice(topic as Hex, 12))
+        const activity = tally.get(publisher.toLowerCase())
+        if (!activity) {
+            tally.set(publisher.toLowerCase(), {
+                publisher,
+                firstSeenBlock: log.blockNumber,
+                lastSeenBlock: log.blockNumber,
+                writes: 1,
+            })
+            continue
+        }
+        if (log.blockNumber < activity.firstSeenBlock) {
+            activity.firstSeenBlock = log.blockNumber
+        }
+        if (log.blockNumber > activity.lastSeenBlock) {
+            activity.lastSeenBlock = log.blockNumber
+        }
+        activity.writes++
+    }
+}
+
+/**
+ * Running tally of the publishers writing to each schema, built from ESStoreEvent logs
+ * @dev Only blocks outside the range already scanned for a schema are read again, so repeated scans are incremental
+ * @dev Logs of the most recent blocks are kept with their block hash. When a reorg replaces any of them they are dropped and read again,
+ * reorgs deeper than the reorg depth are not detected
+ * @dev Scans of the same schema are serialised so that no block is counted twice
+ */
+export class PublisherIndex {
+    private readonly scans = new Map<string, ScanState>()
+    private readonly queue = new Map<string, Promise<unknown>>()
+
+    /**
+     * Extend the scan of a schema to cover a block range
+     * @param key Identifies the schema and the deployment it was written to
+     * @param fromBlock First block that should be covered
+     * @param toBlock Last block that should be covered
+     * @param source Reads logs and block hashes from chain
+     * @param reorgDepth Number of recent blocks checked for reorgs (defaults to 64)
+     * @returns Publishers seen over the whole range scanned so far
+     */
+    public async scan(
+        key: string,
+        fromBlock: bigint,
+        toBlock: bigint,
+        source: StoreLogSource,
+        reorgDepth: number = DEFAULT_REORG_DEPTH
+    ): Promise<PublisherScan> {
+        const previous = this.queue.get(key) ?? Promise.resolve()
+        const next = previous.catch(() => undefined).then(() => this.extend(key, fromBlock, toBlock, source, reorgDepth))
+        this.queue.set(key, next)
+        try {
+            return await next
+        } finally {
+            if (this.queue.get(key) === next) {
+                this.queue.delete(key)
+            }
+        }
+    }
+
+    private async extend(key: string, fromBlock: bigint, toBlock: bigint, source: StoreLogSource, reorgDepth: number): Promise<PublisherScan> {
+        const state = this.scans.get(key)
+        const settled = cloneTally(state?.settled ?? new Map())
+        let recent = [...(state?.recent ?? [])]
+        let scannedFrom = state?.fromBlock ?? fromBlock
+        let scannedTo = state?.toBlock ?? fromBlock - BigInt(1)
+        let settledTo = state?.settledTo ?? fromBlock - BigInt(1)
+
+        // Walk back over the recent blocks until one is still on chain, everything scanned after it is read again
+        let reorged = false
+        while (recent.length > 0) {
+            const tracked = recent[recent.length - 1]
+            if (await source.getBlockHash(tracked.blockNumber) === tracked.blockHash) {
+                break
+            }
+            recent.pop()
+            reorged = true
+        }
+        if (reorged) {
+            scannedTo = recent.length > 0 ? recent[recent.length - 1].blockNumber : settledTo
+        }
+
+        // Logs are grouped by block, blocks read before the range already covered are older than the settled blocks and folded in below
+        const collect = (blocks: TrackedBlock[]) => (logs: Log[]) => {
+            for (const log of logs) {
+                if (log.removed || log.blockNumber === null || log.blockHash === null) {
+                    continue
+                }
+                const last = blocks[blocks.length - 1]
+                if (last && last.blockNumber === log.blockNumber) {
+                    last.logs.push(log)
+                } else {
+                    blocks.push({ blockNumber: log.blockNumber, blockHash: log.blockHash, logs: [log] })
+                }
+            }
+        }
+
+        // Only the blocks either side of the range already covered are read
+        if (state && fromBlock < scannedFrom) {
+            const older: TrackedBlock[] = []
+            await source.read(fromBlock, scannedFrom - BigInt(1), collect(older))
+            recent = [...older, ...recent]
+            scannedFrom = fromBlock
+        }
+        if (toBlock > scannedTo) {
+            const newer: TrackedBlock[] = []
+            await source.read(scannedTo + BigInt(1), toBlock, collect(newer))
+            recent = [...recent, ...newer]
+            scannedTo = toBlock
+        }
+
+        // The last block scanned is tracked even without logs so that a reorg of blocks without logs is noticed too
+        const last = recent[recent.length - 1]
+        if (scannedTo > settledTo && (!last || last.blockNumber !== scannedTo)) {
+            const blockHash = await source.getBlockHash(scannedTo)
+            if (blockHash) {
+                recent.push({ blockNumber: scannedTo, blockHash, logs: [] })
+            }
+        }
+
+        // Blocks deeper than the reorg depth are folded into the tally
+        const depth = scannedTo - BigInt(reorgDepth)
+        if (depth > settledTo) {
+            settledTo = depth
+        }
+        while (recent.length > 0 && recent[0].blockNumber <= settledTo) {
+            record(settled, recent[0].logs)
+            recent.shift()
+        }
+
+        // The tally is only committed once every page was read so a failed scan can simply be retried
+        this.scans.set(key, { fromBlock: scannedFrom, toBlock: scannedTo, settledTo, settled, recent })
+
+        const publishers = cloneTally(settled)
+        recent.forEach((block) => record(publishers, block.logs))
+        return {
+            fromBlock: scannedFrom,
+            toBlock: scannedTo,
+            publishers: Array.from(publishers.values())
+                .sort((a, b) => a.firstSeenBlock < b.firstSeenBlock ? -1 : a.firstSeenBlock > b.firstSeenBlock ? 1 : 0),
+        }
+    }
+}
\ No newline at end of file
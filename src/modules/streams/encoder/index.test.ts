@@ -0,0 +1,47 @@
+import { defineSchema } from "@/modules/streams/schema"
+import { SchemaEncoder } from "."
+
+const driver = "0x52908400098527886E0F7030069857D2E4169EE7"
+
+describe("SchemaEncoder", () => {
+    it("round trips nested tuples and arrays as objects", () => {
+        const trip = defineSchema("uint64 timestamp, (address driver, uint16[] stops) leg, (string label, (uint8 x, uint8 y)[] points)[] routes, bytes32[2] tags")
+        const record = {
+            timestamp: BigInt(7),
+            leg: { driver, stops: [1, 2, 3] },
+            routes: [
+                { label: "a", points: [{ x: 1, y: 2 }, { x: 3, y: 4 }] },
+                { label: "b", points: [] },
+            ],
+            tags: [`0x${"01".repeat(32)}`, `0x${"02".repeat(32)}`],
+        } as const
+
+        expect(trip.decode(trip.encode(record))).toEqual(record)
+    })
+
+    it("round trips the same data through items and objects", () => {
+        const encoder = new SchemaEncoder("uint8 n, (bool ok, string note)[] entries")
+        const data = encoder.encodeObject({ n: 1, entries: [{ ok: true, note: "x" }] })
+        expect(encoder.decodeData(data).map((item) => item.value.value)).toEqual([
+            1,
+            [[{ name: "ok", type: "bool", value: true }, { name: "note", type: "string", value: "x" }]],
+        ])
+        expect(encoder.decodeToObject(data)).toEqual({ n: 1, entries: [{ ok: true, note: "x" }] })
+    })
+
+    it("keys unnamed fields and components by their position", () => {
+        const point = defineSchema("uint64, string label, (uint8, uint8 y), uint64")
+        const record = { _0: BigInt(1), label: "p", _2: { _0: 4, y: 5 }, _3: BigInt(2) }
+
+        const data = point.encode(record)
+        expect(point.decode(data)).toEqual(record)
+        expect(point.encoder.encodeObject({ ...record, _2: [4, 5] })).toBe(data)
+    })
+
+    it("rejects unknown and missing fields", () => {
+        const encoder = new SchemaEncoder("uint64 n, (uint8 x, uint8 y) point")
+        expect(() => encoder.encodeObject({ n: 1, point: { x: 1, y: 2 }, extra: 1 })).toThrow(/Unknown schema field: extra/)
+        expect(() => encoder.encodeObject({ n: 1 })).toThrow(/Missing value for schema field: point/)
+        expect(() => encoder.encodeObject({ n: 1, point: { x: 1 } })).toThrow(/Missing value for tuple component: y/)
+    })
+})
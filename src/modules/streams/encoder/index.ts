@@ -37,6 +37,8 @@ export interface SchemaDecodedItem {
   value: SchemaItem;
 }
 
+export type SchemaObject = Record<string, unknown>;
+
 const TUPLE_TYPE = "tuple";
 const BYTES32 = "bytes32";
 const ADDRESS = "address";
@@ -185,6 +187,36 @@ export class SchemaEncoder {
     });
   }
 
+  public encodeObject(values: Record<string, unknown>): Hex {
+    const keys = this.abiParams.map((input, i) => SchemaEncoder.fieldName(input, i));
+    for (const name of Object.keys(values)) {
+      if (!keys.includes(name)) {
+        throw new Error(`Unknown schema field: ${name}`);
+      }
+    }
+
+    const params: SchemaItem[] = this.schema.map((s, i) => {
+      if (!(keys[i] in values)) {
+        throw new Error(`Missing value for schema field: ${keys[i]}`);
+      }
+      const value = SchemaEncoder.fromNamedValue(this.abiParams[i], values[keys[i]]);
+      return { name: s.name, type: s.type, value: value as SchemaValue };
+    });
+
+    return this.encodeData(params);
+  }
+
+  public decodeToObject(data: Hex): SchemaObject {
+    const values = decodeAbiParameters(this.abiParamsNoNames, data);
+
+    const decoded: SchemaObject = {};
+    for (const [i, input] of this.abiParams.entries()) {
+      decoded[SchemaEncoder.fieldName(input, i)] = SchemaEncoder.toNamedValue(input, values[i]);
+    }
+
+    return decoded;
+  }
+
   public static isSchemaValid(schema: string) {
     try {
       new SchemaEncoder(schema);
@@ -205,6 +237,59 @@ export class SchemaEncoder {
     }
   }
 
+  private static toNamedValue(param: AbiParameter, value: unknown): unknown {
+    const components: readonly AbiParameter[] = "components" in param ? param.components ?? [] : [];
+    if (components.length === 0) {
+      return value;
+    }
+
+    // Arrays of tuples are unwrapped one dimension at a time until the tuple itself is reached
+    const arrayMatch = param.type.match(/^(.*)\[\d*\]$/);
+    if (arrayMatch) {
+      const elementParam = { ...param, type: arrayMatch[1] } as AbiParameter;
+      return (value as readonly unknown[]).map((v) => SchemaEncoder.toNamedValue(elementParam, v));
+    }
+
+    const named: SchemaObject = {};
+    for (const [k, v] of (value as readonly unknown[]).entries()) {
+      named[SchemaEncoder.fieldName(components[k], k)] = SchemaEncoder.toNamedValue(components[k], v);
+    }
+
+    return named;
+  }
+
+  // Reverses toNamedValue, turning tuple objects back into positional arrays so unnamed components encode too
+  private static fromNamedValue(param: AbiParameter, value: unknown): unknown {
+    const components: readonly AbiParameter[] = "components" in param ? param.components ?? [] : [];
+    if (components.length === 0) {
+      return value;
+    }
+
+    const arrayMatch = param.type.match(/^(.*)\[\d*\]$/);
+    if (arrayMatch) {
+      const elementParam = { ...param, type: arrayMatch[1] } as AbiParameter;
+      return (value as readonly unknown[]).map((v) => SchemaEncoder.fromNamedValue(elementParam, v));
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((v, k) => SchemaEncoder.fromNamedValue(components[k], v));
+    }
+
+    const named = value as SchemaObject;
+    return components.map((component, k) => {
+      const key = SchemaEncoder.fieldName(component, k);
+      if (!(key in named)) {
+        throw new Error(`Missing value for tuple component: ${key}`);
+      }
+      return SchemaEncoder.fromNamedValue(component, named[key]);
+    });
+  }
+
+  // Unnamed parameters are keyed by their position so they cannot overwrite each other
+  private static fieldName(param: AbiParameter, index: number): string {
+    return param.name || `_${index}`;
+  }
+
   private static getDefaultValueForTypeName(typeName: string) {
     if (typeName === BOOL) return false;
     if (typeName.includes("int")) return BigInt(0);
@@ -0,0 +1,148 @@
+import { createPublicClient, custom, Hex, hexToBigInt, keccak256, Log, pad, toEventSelector, toHex, zeroHash } from "viem"
+import { StreamsEmulator } from "@/modules/emulator"
+import { StreamsError, StreamsErrorCode, StreamsValidationError } from "@/services/errors"
+import { EventSchema } from "@/types/streams"
+import { decodeEventStream, encodeEventStream, encodeTopic, encodeTopicFilter, queryLogs } from "."
+
+const sender = "0x52908400098527886E0F7030069857D2E4169EE7"
+const chatMessage: EventSchema = {
+    params: [
+        { name: "room", paramType: "uint64", isIndexed: true },
+        { name: "sender", paramType: "address", isIndexed: true },
+        { name: "channel", paramType: "string", isIndexed: true },
+        { name: "message", paramType: "string", isIndexed: false },
+        { name: "mentions", paramType: "address[]", isIndexed: false },
+    ],
+    eventTopic: toEventSelector("ChatMessage(uint64 indexed room, address indexed sender, string indexed channel, string message, address[] mentions)"),
+}
+const values = { room: BigInt(1), sender, channel: "general", message: "hello", mentions: [sender] }
+
+describe("encodeTopic", () => {
+    it("encodes value types as their 32 byte encoding and hashes strings and bytes", () => {
+        expect(encodeTopic({ name: "room", paramType: "uint64", isIndexed: true }, BigInt(7))).toBe(toHex(7, { size: 32 }))
+        expect(encodeTopic({ name: "sender", paramType: "address", isIndexed: true }, sender)).toBe(pad(sender.toLowerCase() as Hex))
+        expect(encodeTopic({ name: "ok", paramType: "bool", isIndexed: true }, true)).toBe(toHex(1, { size: 32 }))
+        expect(encodeTopic({ name: "channel", paramType: "string", isIndexed: true }, "general")).toBe(keccak256(toHex("general")))
+        expect(encodeTopic({ name: "blob", paramType: "bytes", isIndexed: true }, "0x1234")).toBe(keccak256("0x1234"))
+    })
+
+    it("rejects values of the wrong type and types whose topic encoding is unsupported", () => {
+        expect(() => encodeTopic({ name: "room", paramType: "uint8", isIndexed: true }, 300)).toThrow(/room is not a valid uint8/)
+        expect(() => encodeTopic({ name: "channel", paramType: "string", isIndexed: true }, 1)).toThrow(StreamsValidationError)
+        expect(() => encodeTopic({ name: "blob", paramType: "bytes", isIndexed: true }, "xyz")).toThrow(StreamsValidationError)
+        expect(() => encodeTopic({ name: "ids", paramType: "uint256[]", isIndexed: true }, [])).toThrow(/not supported/)
+    })
+})
+
+describe("encodeEventStream", () => {
+    it("round trips indexed parameters through topics and the rest through data", () => {
+        const event = encodeEventStream("ChatMessage", chatMessage, values)
+        expect(event.id).toBe("ChatMessage")
+        expect(event.argumentTopics).toEqual([toHex(1, { size: 32 }), pad(sender.toLowerCase() as Hex), keccak256(toHex("general"))])
+
+        // The indexed string only survives as its hash
+        expect(decodeEventStream(chatMessage, event.argumentTopics, event.data)).toEqual({ ...values, channel: keccak256(toHex("general")) })
+    })
+
+    it("encodes events without data parameters", () => {
+        const ping: EventSchema = { params: [{ name: "id", paramType: "bytes32", isIndexed: true }], eventTopic: toEventSelector("Ping(bytes32)") }
+        const event = encodeEventStream("Ping", ping, { id: zeroHash })
+        expect(event.data).toBe("0x")
+        expect(decodeEventStream(ping, event.argumentTopics, event.data)).toEqual({ id: zeroHash })
+    })
+
+    it("rejects unregistered events and values that do not match the schema", () => {
+        expect(() => encodeEventStream("ChatMessage", { ...chatMessage, eventTopic: zeroHash }, values))
+            .toThrow(expect.objectContaining({ code: StreamsErrorCode.EventSchemaNotRegistered }))
+        const wide = { ...chatMessage, params: [...chatMessage.params, { name: "extra", paramType: "uint8", isIndexed: true }] }
+        expect(() => encodeEventStream("ChatMessage", wide, { ...values, extra: 1 }))
+            .toThrow(expect.objectContaining({ code: StreamsErrorCode.TooManyTopics }))
+        expect(() => encodeEventStream("ChatMessage", chatMessage, { ...values, typo: 1 })).toThrow(/no parameters named typo/)
+        expect(() => encodeEventStream("ChatMessage", chatMessage, { ...values, message: undefined })).toThrow(/missing values for message/)
+        expect(() => encodeEventStream("ChatMessage", chatMessage, { ...values, mentions: ["0x12"] })).toThrow(/mentions is not a valid address\[\]/)
+    })
+})
+
+describe("decodeEventStream", () => {
+    it("rejects logs that do not match the schema", () => {
+        const event = encodeEventStream("ChatMessage", chatMessage, values)
+        expect(() => decodeEventStream(chatMessage, event.argumentTopics.slice(1), event.data))
+            .toThrow(expect.objectContaining({ code: StreamsErrorCode.IncorrectNumberOfTopics }))
+        expect(() => decodeEventStream(chatMessage, event.argumentTopics, "0x1234"))
+            .toThrow(expect.objectContaining({ code: StreamsErrorCode.InvalidDataLength }))
+    })
+})
+
+describe("encodeTopicFilter", () => {
+    it("matches any value of unfiltered parameters and drops trailing wildcards", () => {
+        expect(encodeTopicFilter(chatMessage)).toEqual([])
+        expect(encodeTopicFilter(chatMessage, { sender })).toEqual([null, pad(sender.toLowerCase() as Hex)])
+        expect(encodeTopicFilter(chatMessage, { room: [BigInt(1), BigInt(2)] })).toEqual([[toHex(1, { size: 32 }), toHex(2, { size: 32 })]])
+    })
+
+    it("rejects filters on parameters that are not indexed", () => {
+        expect(() => encodeTopicFilter(chatMessage, { message: "hello" })).toThrow(/no indexed parameters named message/)
+    })
+})
+
+describe("queryLogs", () => {
+    // Records the block range of every eth_getLogs request, failing those the node would reject
+    function setup(fail?: (range: [number, number]) => Error | undefined) {
+        const emulator = new StreamsEmulator({ maxLogBlockRange: 4 })
+        emulator.mine(20)
+        const ranges: [number, number][] = []
+        const transport = custom({
+            request: async ({ method, params }) => {
+                if (method === "eth_getLogs") {
+                    const [{ fromBlock, toBlock }] = params as [{ fromBlock: Hex, toBlock: Hex }]
+                    const range: [number, number] = [Number(hexToBigInt(fromBlock)), Number(hexToBigInt(toBlock))]
+                    ranges.push(range)
+                    const error = fail?.(range)
+                    if (error) {
+                        throw error
+                    }
+                }
+                return emulator.request(method, params)
+            },
+        }, { retryCount: 0 })
+        const client = { public: createPublicClient({ chain: emulator.chain, transport }) }
+        return { client, query: { address: emulator.address, topics: [], fromBlock: BigInt(1), toBlock: BigInt(20) }, ranges }
+    }
+
+    it("halves pages the node rejects and keeps the smaller size", async () => {
+        const { client, query, ranges } = setup()
+        const pages: Log[][] = []
+        await queryLogs(client, { ...query, pageSize: 10 }, (logs) => {
+            pages.push(logs)
+        })
+
+        expect(ranges.slice(0, 3)).toEqual([[1, 10], [1, 5], [1, 2]])
+        expect(ranges.slice(2)).toEqual(Array.from({ length: 10 }, (_, i) => [2 * i + 1, 2 * i + 2]))
+        expect(pages.length).toBe(10)
+    })
+
+    it("reads the whole range in one page when it fits", async () => {
+        const { client, query, ranges } = setup()
+        await queryLogs(client, { ...query, fromBlock: BigInt(3), toBlock: BigInt(5), pageSize: 4 }, () => undefined)
+        expect(ranges).toEqual([[3, 5]])
+    })
+
+    it("throws errors unrelated to the page size and pages that cannot shrink", async () => {
+        const reverted = setup(() => Object.assign(new Error("execution reverted"), { code: -32000 }))
+        await expect(queryLogs(reverted.client, { ...reverted.query, pageSize: 10 }, () => undefined)).rejects.toBeInstanceOf(StreamsError)
+        expect(reverted.ranges).toEqual([[1, 10]])
+
+        const limited = setup(() => Object.assign(new Error("query returned more than 10000 results"), { code: -32005 }))
+        await expect(queryLogs(limited.client, { ...limited.query, pageSize: 4 }, () => undefined)).rejects.toBeInstanceOf(StreamsError)
+        expect(limited.ranges).toEqual([[1, 4], [1, 2], [1, 1]])
+    })
+
+    it("rejects invalid page sizes and ranges", async () => {
+        const { client, query, ranges } = setup()
+        await expect(queryLogs(client, { ...query, pageSize: 0 }, () => undefined))
+            .rejects.toMatchObject({ code: StreamsErrorCode.InvalidArgument })
+        await expect(queryLogs(client, { ...query, fromBlock: BigInt(5), toBlock: BigInt(4), pageSize: 4 }, () => undefined))
+            .rejects.toMatchObject({ code: StreamsErrorCode.InvalidRange })
+        expect(ranges).toEqual([])
+    })
+})
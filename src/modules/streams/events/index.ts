@@ -0,0 +1,269 @@
+import {
+    AbiParameter,
+    Address,
+    Hex,
+    Log,
+    RpcLog,
+    decodeAbiParameters,
+    encodeAbiParameters,
+    formatLog,
+    isHex,
+    keccak256,
+    numberToHex,
+    toBytes,
+    toEventSelector,
+    zeroHash,
+} from "viem"
+import { Client } from "@/types"
+import { StreamsErrorCode, StreamsValidationError, toStreamsError } from "@/services/errors"
+import { EventParameter, EventSchema, EventStream } from "@/types/streams"
+
+// The event topic occupies the first of the four topics a log can carry
+const MAX_ARGUMENT_TOPICS = 3
+
+// Topic of the protocol event logged for every data stream written, indexed by schema id, data id and publisher
+export const ES_STORE_EVENT_TOPIC = toEventSelector("ESStoreEvent(bytes32,bytes32,address)")
+
+function describe(error: unknown): string {
+    return error instanceof Error ? error.message.split("\n")[0] : String(error)
+}
+
+function encodeParameter(param: EventParameter, value: unknown): Hex {
+    try {
+        return encodeAbiParameters([{ name: param.name, type: param.paramType } as AbiParameter], [value])
+    } catch (e) {
+        throw new StreamsValidationError(
+            StreamsErrorCode.InvalidArgument,
+            `Event parameter ${param.name} is not a valid ${param.paramType}: ${describe(e)}`,
+            { cause: e }
+        )
+    }
+}
+
+// Indexed parameters of these types are recorded as a hash of their value rather than the value itself
+function hashedInTopic(type: string): boolean {
+    return type === "string" || type === "bytes" || type.endsWith("]") || type.startsWith("(") || type.startsWith("tuple")
+}
+
+/**
+ * Encode an indexed parameter the way solidity does for event topics
+ * @dev Value types are stored as their 32 byte encoding while strings and bytes are stored as the keccak256 hash of their contents
+ * @param param Indexed event parameter
+ * @param value Value of the parameter
+ * @returns 32 byte topic
+ */
+export function encodeTopic(param: EventParameter, value: unknown): Hex {
+    const type = param.paramType.trim()
+    if (type.endsWith("]") || type.startsWith("(") || type.startsWith("tuple")) {
+        throw new StreamsValidationError(
+            StreamsErrorCode.InvalidArgument,
+            `Indexed event parameter ${param.name} has type ${type} whose topic encoding is not supported, emit it as data instead`
+        )
+    }
+
+    if (type === "string") {
+        if (typeof value !== "string") {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Event parameter ${param.name} must be a string`)
+        }
+        return keccak256(toBytes(value))
+    }
+    if (type === "bytes") {
+        if (typeof value !== "string" || !isHex(value)) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Event parameter ${param.name} must be hex bytes`)
+        }
+        return keccak256(value)
+    }
+    return encodeParameter(param, value)
+}
+
+/**
+ * Encode the arguments of a registered event into the topics and data expected by emitEvents
+ * @dev Indexed parameters become argument topics in the order they are declared, the remaining parameters are ABI encoded together as the data
+ * @example const event = encodeEventStream("ChatMessage", schema, { room: 1n, sender: account.address, message: "hello" })
+ * @param eventId Identifier the event schema was registered under
+ * @param schema Registered event schema
+ * @param values Value of every event parameter by name
+ * @returns Event stream ready to be emitted
+ */
+export function encodeEventStream(eventId: string, schema: EventSchema, values: Record<string, unknown>): EventStream {
+    if (!schema.eventTopic || schema.eventTopic === zeroHash) {
+        throw new StreamsValidationError(StreamsErrorCode.EventSchemaNotRegistered, `Event ${eventId} is not registered`)
+    }
+
+    const indexed = schema.params.filter((param) => param.isIndexed)
+    if (indexed.length > MAX_ARGUMENT_TOPICS) {
+        throw new StreamsValidationError(
+            StreamsErrorCode.TooManyTopics,
+            `Event ${eventId} has ${indexed.length} indexed parameters but at most ${MAX_ARGUMENT_TOPICS} are supported`
+        )
+    }
+
+    const names = new Set(schema.params.map((param) => param.name))
+    const unknown = Object.keys(values).filter((name) => !names.has(name))
+    if (unknown.length > 0) {
+        throw new StreamsValidationError(
+            StreamsErrorCode.InvalidArgument,
+            `Event ${eventId} has no parameters named ${unknown.join(", ")}`
+        )
+    }
+    const missing = schema.params.filter((param) => values[param.name] === undefined).map((param) => param.name)
+    if (missing.length > 0) {
+        throw new StreamsValidationError(
+            StreamsErrorCode.InvalidArgument,
+            `Event ${eventId} is missing values for ${missing.join(", ")}`
+        )
+    }
+
+    const argumentTopics = indexed.map((param) => encodeTopic(param, values[param.name]))
+
+    // Each parameter is checked on its own first so that a failure names the offending parameter
+    const nonIndexed = schema.params.filter((param) => !param.isIndexed)
+    nonIndexed.forEach((param) => encodeParameter(param, values[param.name]))
+    const data = nonIndexed.length === 0
+        ? "0x"
+        : encodeAbiParameters(
+            nonIndexed.map((param) => ({ name: param.name, type: param.paramType }) as AbiParameter),
+            nonIndexed.map((param) => values[param.name])
+        )
+
+    return { id: eventId, argumentTopics, data }
+}
+
+/**
+ * Build the argument topic filter of a log query from values of indexed parameters
+ * @param schema Registered event schema
+ * @param filters Value to match for indexed parameters by name, an array matching any of its values
+ * @returns Topic filter for the argument topics where null matches any value
+ */
+export function encodeTopicFilter(schema: EventSchema, filters: Record<string, unknown> = {}): (Hex | Hex[] | null)[] {
+    const indexed = schema.params.filter((param) => param.isIndexed)
+    const unknown = Object.keys(filters).filter((name) => !indexed.some((param) => param.name === name))
+    if (unknown.length > 0) {
+        throw new StreamsValidationError(
+            StreamsErrorCode.InvalidArgument,
+            `Only indexed parameters can be filtered on, the event has no indexed parameters named ${unknown.join(", ")}`
+        )
+    }
+
+    const topics = indexed.map((param) => {
+        const value = filters[param.name]
+        if (value === undefined) {
+            return null
+        }
+        return Array.isArray(value) ? value.map((option) => encodeTopic(param, option)) : encodeTopic(param, value)
+    })
+    // Trailing wildcards are implied
+    while (topics.length > 0 && topics[topics.length - 1] === null) {
+        topics.pop()
+    }
+    return topics
+}
+
+/**
+ * Decode the argument topics and data of an emitted event into its parameters by name
+ * @dev Indexed strings, bytes, arrays and tuples are only recorded as a hash so the topic itself is returned for them
+ * @param schema Registered event schema
+ * @param argumentTopics Topics of the log after the event topic
+ * @param data Data of the log
+ * @returns Value of every event parameter by name
+ */
+export function decodeEventStream(schema: EventSchema, argumentTopics: Hex[], data: Hex): Record<string, unknown> {
+    const indexed = schema.params.filter((param) => param.isIndexed)
+    if (indexed.length !== argumentTopics.length) {
+        throw new StreamsValidationError(
+            StreamsErrorCode.IncorrectNumberOfTopics,
+            `Expected ${indexed.length} argument topics but the log has ${argumentTopics.length}`
+        )
+    }
+
+    const values: Record<string, unknown> = {}
+    indexed.forEach((param, i) => {
+        const type = param.paramType.trim()
+        values[param.name] = hashedInTopic(type)
+            ? argumentTopics[i]
+            : decodeAbiParameters([{ type } as AbiParameter], argumentTopics[i])[0]
+    })
+
+    const nonIndexed = schema.params.filter((param) => !param.isIndexed)
+    if (nonIndexed.length > 0) {
+        try {
+            const decoded = decodeAbiParameters(
+                nonIndexed.map((param) => ({ name: param.name, type: param.paramType }) as AbiParameter),
+                data
+            )
+            nonIndexed.forEach((param, i) => {
+                values[param.name] = decoded[i]
+            })
+        } catch (e) {
+            throw new StreamsValidationError(
+                StreamsErrorCode.InvalidDataLength,
+                `Event data does not match the schema: ${describe(e)}`,
+                { cause: e }
+            )
+        }
+    }
+    return values
+}
+
+/**
+ * Range and filter of a paged log query
+ * @param address Contract emitting the logs
+ * @param topics Topic filter where null matches any topic and an array matches any of its values
+ * @param fromBlock First block searched (inclusive)
+ * @param toBlock Last block searched (inclusive)
+ * @param pageSize Blocks searched per request
+ */
+export type LogQuery = {
+    address: Address
+    topics: (Hex | Hex[] | null)[]
+    fromBlock: bigint
+    toBlock: bigint
+    pageSize: number
+}
+
+// Fragments of the errors nodes return when a log query spans too many blocks or matches too many logs
+const RANGE_LIMIT_ERROR = /range|too many|more than|limit|exceed|timeout|too large/i
+
+/**
+ * Read logs over a block range in pages, oldest first
+ * @dev When the node rejects a page for its size the page is halved and retried, and later pages keep the smaller size
+ * @param client Viem clients used to query logs
+ * @param query Contract, topic filter, block range and page size
+ * @param onPage Called with the logs of every page, in block order, before the next page is read
+ */
+export async function queryLogs(client: Client, query: LogQuery, onPage: (logs: Log[]) => void | Promise<void>): Promise<void> {
+    if (!Number.isInteger(query.pageSize) || query.pageSize < 1) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "pageSize must be a positive integer")
+    }
+    if (query.toBlock < query.fromBlock) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidRange, `Invalid block range [${query.fromBlock}, ${query.toBlock}]`)
+    }
+
+    let pageSize = BigInt(query.pageSize)
+    let from = query.fromBlock
+    while (from <= query.toBlock) {
+        const to = from + pageSize - BigInt(1) < query.toBlock ? from + pageSize - BigInt(1) : query.toBlock
+
+        let logs: RpcLog[]
+        try {
+            logs = await client.public.request({
+                method: "eth_getLogs",
+                params: [{
+                    address: query.address,
+                    topics: query.topics,
+                    fromBlock: numberToHex(from),
+                    toBlock: numberToHex(to),
+                }],
+            })
+        } catch (e) {
+            if (pageSize > BigInt(1) && RANGE_LIMIT_ERROR.test(e instanceof Error ? e.message : String(e))) {
+                pageSize = pageSize / BigInt(2)
+                continue
+            }
+            throw toStreamsError(e)
+        }
+
+        await onPage(logs.map((log) => formatLog(log)))
+        from = to + BigInt(1)
+    }
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { createPublicClient, createWalletClient, toHex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { SDK } from "@/index"
+import { StreamsEmulator } from "@/modules/emulator"
+import { StreamsValidationError } from "@/services/errors"
+
+const account = privateKeyToAccount(`0x${"44".repeat(32)}`)
+
+function setup() {
+    const emulator = new StreamsEmulator()
+    return new SDK({
+        public: createPublicClient({ chain: emulator.chain, transport: emulator.transport }),
+        wallet: createWalletClient({ chain: emulator.chain, account, transport: emulator.transport }),
+    }, { errorMode: "throw", logLevel: "silent" })
+}
+
+describe("StreamHandle", () => {
+    it("registers the schema on first write and reads records back", async () => {
+        const sdk = setup()
+        const trips = sdk.streams.stream("uint64 timestamp, string label", { register: { schemaName: "trips" } })
+
+        await (await trips.put(toHex(1, { size: 32 }), { timestamp: BigInt(1), label: "a" })).wait()
+        await (await trips.put(toHex(2, { size: 32 }), { timestamp: BigInt(2), label: "b" })).wait()
+
+        expect(await trips.get(toHex(2, { size: 32 }))).toEqual({ timestamp: BigInt(2), label: "b" })
+        expect(await trips.get(toHex(3, { size: 32 }))).toBeUndefined()
+        expect(await trips.count()).toBe(BigInt(2))
+        expect(await trips.latest()).toEqual({ timestamp: BigInt(2), label: "b" })
+        expect(await trips.last(5)).toEqual([{ timestamp: BigInt(1), label: "a" }, { timestamp: BigInt(2), label: "b" }])
+    })
+
+    it("rejects registrations that extend a parent schema", () => {
+        const sdk = setup()
+        const register = { schemaName: "child", parentSchemaId: toHex(1, { size: 32 }) }
+        expect(() => sdk.streams.stream("uint64 n", { register })).toThrow(StreamsValidationError)
+    })
+})
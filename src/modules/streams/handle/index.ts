@@ -0,0 +1,293 @@
+import {
+    Account,
+    Address,
+    Hex,
+} from "viem"
+import {
+    StreamsContractError,
+    StreamsError,
+    StreamsErrorCode,
+    StreamsValidationError,
+    StreamsWalletError,
+} from "@/services/errors"
+import {
+    BatchWriteOptions,
+    ErrorMode,
+    Outcome,
+    SchemaID,
+    StreamHandleOptions,
+    StreamRecord,
+    StreamSubscription,
+    StreamUpdate,
+    StreamsInterface,
+    WriteOutcome,
+} from "@/types/streams"
+import { assertAddressIsValid } from "@/utils/validation"
+import { SchemaRecord, TypedSchema, defineSchema } from "../schema"
+import { StructuredKey, resolveKey } from "../keys"
+
+/**
+ * Services a stream handle borrows from the Streams instance that created it
+ * @param streams Streams instance the handle reads and writes through
+ * @param resolveSender Resolves the connected wallet account
+ * @param execute Runs a method body and reports its outcome according to the configured error mode
+ * @param unwrap Turns the outcome of an SDK method back into a plain value, throwing on failure
+ */
+export type StreamHandleContext<M extends ErrorMode> = {
+    streams: StreamsInterface<M>
+    resolveSender(): Promise<Account | Address | undefined>
+    execute<T>(method: string, args: Record<string, unknown>, fn: () => Promise<T>): Promise<Outcome<T, M>>
+    unwrap<T>(outcome: Promise<Outcome<T, M>>): Promise<T>
+}
+
+/**
+ * Callbacks of a stream watcher
+ * @param onData Called with every record written to the stream, in the order the writes were observed
+ * @param onError Called when a notification cannot be read or the subscription fails
+ */
+export type StreamWatchOptions<S extends string> = {
+    onData(update: StreamUpdate<S>): void
+    onError?(error: StreamsError): void
+}
+
+/**
+ * A single logical stream: the records one publisher writes against one schema
+ * @dev Records are encoded and decoded with the schema so every method is typed from the schema string
+ * @dev Writes are sent from the connected wallet, which should be the publisher for reads to observe them
+ * @dev Schemas extending a parent are not supported since other readers decode their records with the parent fields
+ */
+export class StreamHandle<S extends string, M extends ErrorMode = "legacy"> {
+    // Schema records are encoded and decoded against
+    public readonly schema: TypedSchema<S>
+
+    private readonly context: StreamHandleContext<M>
+    private readonly options: StreamHandleOptions
+
+    // Resolved on first use and shared by every later call
+    private schemaId: Promise<SchemaID> | null = null
+    private publisher: Promise<Address> | null = null
+    private registration: Promise<void> | null = null
+
+    /**
+     * @param context Services of the Streams instance that created the handle
+     * @param schema Raw schema string or typed schema records are written against
+     * @param options Publisher, known schema id and registration of the schema
+     */
+    constructor(context: StreamHandleContext<M>, schema: S | TypedSchema<S>, options: StreamHandleOptions = {}) {
+        this.context = context
+        this.schema = typeof schema === "string" ? defineSchema(schema) : schema
+        this.options = options
+        if (options.publisher) {
+            assertAddressIsValid(options.publisher)
+        }
+        if (options.register && "parentSchemaId" in options.register) {
+            throw new StreamsValidationError(
+                StreamsErrorCode.InvalidArgument,
+                "Stream handles cannot register a schema that extends a parent schema"
+            )
+        }
+    }
+
+    /**
+     * Identifier of the schema, computed from the schema string unless supplied when the handle was created
+     * @returns The bytes32 schema id or Error
+     */
+    public async getSchemaId(): Promise<Outcome<SchemaID, M>> {
+        return this.context.execute("stream.getSchemaId", {}, () => this.resolveSchemaId())
+    }
+
+    /**
+     * Address whose records the handle reads
+     * @returns The publisher supplied when the handle was created or the connected wallet account
+     */
+    public async getPublisher(): Promise<Outcome<Address, M>> {
+        return this.context.execute("stream.getPublisher", {}, () => this.resolvePublisher())
+    }
+
+    /**
+     * Write a record under a key, registering the schema first when the handle was created with a registration
+     * @param key Raw bytes32 key or structured key
+     * @param record Record to encode with the schema
+     * @param options Optional pre-flight simulation, dry run, compression or encryption
+     * @returns Transaction handle (simulation when dry running) or Error
+     */
+    public async put<O extends BatchWriteOptions = BatchWriteOptions>(
+        key: Hex | StructuredKey,
+        record: SchemaRecord<S>,
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>> {
+        return this.context.execute("stream.put", { key, record, options }, async () => {
+            const schemaId = await this.resolveSchemaId()
+            const data = this.schema.encode(record)
+
+            if (!options?.dryRun) {
+                await this.ensureRegistered(schemaId)
+            }
+
+            return this.context.unwrap(this.context.streams.set([{ id: resolveKey(key), schemaId, data }], options))
+        })
+    }
+
+    /**
+     * Read the record most recently written under a key
+     * @param key Raw bytes32 key or structured key
+     * @returns The record, undefined when nothing was written under the key, or Error
+     */
+    public async get(key: Hex | StructuredKey): Promise<Outcome<StreamRecord<S> | undefined, M>> {
+        return this.context.execute("stream.get", { key }, async () => {
+            const [schemaId, publisher] = await Promise.all([this.resolveSchemaId(), this.resolvePublisher()])
+            const [record] = await this.context.unwrap(this.context.streams.getByKey(schemaId, publisher, key, { schema: this.schema }))
+            return record
+        })
+    }
+
+    /**
+     * Number of records the publisher has written to the stream
+     * @returns Record count or Error
+     */
+    public async count(): Promise<Outcome<bigint, M>> {
+        return this.context.execute("stream.count", {}, () => this.total())
+    }
+
+    /**
+     * Read the most recently written record
+     * @returns The record, undefined when the stream is empty, or Error
+     */
+    public async latest(): Promise<Outcome<StreamRecord<S> | undefined, M>> {
+        return this.context.execute("stream.latest", {}, async () => {
+            const total = await this.total()
+            if (total === BigInt(0)) {
+                return undefined
+            }
+
+            const [record] = await this.readRange(total - BigInt(1), total)
+            return record
+        })
+    }
+
+    /**
+     * Read the most recently written records, oldest first
+     * @param n Maximum number of records to read
+     * @returns Up to n records or Error
+     */
+    public async last(n: number): Promise<Outcome<StreamRecord<S>[], M>> {
+        return this.context.execute("stream.last", { n }, async () => {
+            if (!Number.isInteger(n) || n < 0) {
+                throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "n must be a non negative integer")
+            }
+
+            const total = await this.total()
+            const start = total > BigInt(n) ? total - BigInt(n) : BigInt(0)
+            return start === total ? [] : this.readRange(start, total)
+        })
+    }
+
+    /**
+     * Read records by their position in the stream
+     * @param startIndex Start of the range (inclusive)
+     * @param endIndex End of the range (exclusive)
+     * @returns Records in the order they were written or Error
+     */
+    public async range(startIndex: bigint | number, endIndex: bigint | number): Promise<Outcome<StreamRecord<S>[], M>> {
+        return this.context.execute("stream.range", { startIndex, endIndex }, async () => {
+            const start = BigInt(startIndex)
+            const end = BigInt(endIndex)
+            if (start < BigInt(0) || end < start) {
+                throw new StreamsValidationError(StreamsErrorCode.InvalidRange, `Invalid range [${start}, ${end})`)
+            }
+            return start === end ? [] : this.readRange(start, end)
+        })
+    }
+
+    /**
+     * Push every record the publisher writes to the stream from now on
+     * @dev Requires a websocket public client, records are read through watchData so the same ordering and limitations apply
+     * @param options Record and error callbacks
+     * @returns Subscription that can be stopped with unsubscribe, or Error
+     */
+    public async watch(options: StreamWatchOptions<S>): Promise<Outcome<StreamSubscription, M>> {
+        return this.context.execute("stream.watch", {}, async () => {
+            const [schemaId, publisher] = await Promise.all([this.resolveSchemaId(), this.resolvePublisher()])
+            return this.context.unwrap(this.context.streams.watchData(
+                schemaId,
+                { publisher, schema: this.schema, onError: options.onError },
+                ({ key, record }) => options.onData({ key, record })
+            ))
+        })
+    }
+
+    private resolveSchemaId(): Promise<SchemaID> {
+        if (!this.schemaId) {
+            this.schemaId = this.options.schemaId
+                ? Promise.resolve(this.options.schemaId)
+                : this.context.unwrap(this.context.streams.computeSchemaId(this.schema.schema))
+            // A failed lookup is retried on next use rather than cached
+            this.schemaId.catch(() => {
+                this.schemaId = null
+            })
+        }
+        return this.schemaId
+    }
+
+    private resolvePublisher(): Promise<Address> {
+        if (!this.publisher) {
+            this.publisher = this.options.publisher
+                ? Promise.resolve(this.options.publisher)
+                : this.context.resolveSender().then((sender) => {
+                    if (!sender) {
+                        throw new StreamsWalletError("A publisher is required when no wallet is connected")
+                    }
+                    return typeof sender === "string" ? sender : sender.address
+                })
+            this.publisher.catch(() => {
+                this.publisher = null
+            })
+        }
+        return this.publisher
+    }
+
+    /**
+     * Register the schema once per handle when a registration was requested and it is not registered yet
+     */
+    private ensureRegistered(schemaId: SchemaID): Promise<void> {
+        const registration = this.options.register
+        if (!registration) {
+            return Promise.resolve()
+        }
+
+        if (!this.registration) {
+            this.registration = (async () => {
+                const { streams, unwrap } = this.context
+                if (await unwrap(streams.isDataSchemaRegistered(schemaId))) {
+                    return
+                }
+
+                const handle = await unwrap(streams.registerDataSchemas([{
+                    schemaName: registration.schemaName,
+                    schema: this.schema.schema,
+                }], true))
+                const result = await handle.wait()
+                if (result.status === "reverted") {
+                    throw new StreamsContractError(
+                        StreamsErrorCode.ContractReverted,
+                        `Registration of schema ${registration.schemaName} reverted in ${result.hash}`
+                    )
+                }
+            })()
+            this.registration.catch(() => {
+                this.registration = null
+            })
+        }
+        return this.registration
+    }
+
+    private async total(): Promise<bigint> {
+        const [schemaId, publisher] = await Promise.all([this.resolveSchemaId(), this.resolvePublisher()])
+        return this.context.unwrap(this.context.streams.totalPublisherDataForSchema(schemaId, publisher))
+    }
+
+    private async readRange(start: bigint, end: bigint): Promise<StreamRecord<S>[]> {
+        const [schemaId, publisher] = await Promise.all([this.resolveSchemaId(), this.resolvePublisher()])
+        return this.context.unwrap(this.context.streams.getBetweenRange(schemaId, publisher, start, end, { schema: this.schema }))
+    }
+}
\ No newline at end of file
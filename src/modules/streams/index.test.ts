@@ -0,0 +1,188 @@
+import { createPublicClient, createWalletClient, Hex, toHex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { SubscriptionCallback, WebsocketSubscriptionInitParams } from "@somnia-chain/reactivity"
+import { SDK, getSupportedChains } from "@/index"
+import { StreamsEmulator } from "@/modules/emulator"
+import { StreamsErrorCode, StreamsValidationError } from "@/services/errors"
+import { defineSchema } from "@/modules/streams/schema"
+
+const account = privateKeyToAccount(`0x${"33".repeat(32)}`)
+const position = defineSchema("uint64 lat, uint64 lng")
+
+async function setup() {
+    const emulator = new StreamsEmulator()
+    const publicClient = createPublicClient({ chain: emulator.chain, transport: emulator.transport })
+    const sdk = new SDK({
+        public: publicClient,
+        wallet: createWalletClient({ chain: emulator.chain, account, transport: emulator.transport }),
+    }, { errorMode: "throw", logLevel: "silent" })
+
+    // The emulator has no websocket so node subscriptions are captured and fed with the logs it emitted
+    const subscriptions: WebsocketSubscriptionInitParams[] = []
+    jest.spyOn(sdk.streams, "subscribe").mockImplementation(async (params) => {
+        subscriptions.push(params)
+        return { subscriptionId: toHex(subscriptions.length, { size: 32 }), unsubscribe: async () => ({ jsonrpc: "2.0", id: 0, result: true }) } as never
+    })
+    let notifiedBlock = emulator.getBlockNumber()
+    const notify = async () => {
+        const logs = await publicClient.getLogs({ address: emulator.address, fromBlock: notifiedBlock + BigInt(1) })
+        notifiedBlock = emulator.getBlockNumber()
+        for (const log of logs) {
+            const notification = { result: { topics: log.topics as Hex[], data: log.data, simulationResults: [] } }
+            subscriptions.forEach((subscription) => subscription.onData(notification as unknown as SubscriptionCallback))
+        }
+    }
+
+    await (await sdk.streams.registerDataSchemas([{ schemaName: "position", schema: position.schema }])).wait()
+    const schemaId = await sdk.streams.computeSchemaId(position.schema)
+    const write = async (key: number, lat: number) => {
+        await (await sdk.streams.set([{ id: toHex(key, { size: 32 }), schemaId, data: position.encode({ lat: BigInt(lat), lng: BigInt(0) }) }])).wait()
+    }
+    return { emulator, sdk, schemaId, write, notify }
+}
+
+function settle() {
+    return new Promise((resolve) => setTimeout(resolve, 50))
+}
+
+describe("Streams.watchData", () => {
+    it("delivers the records written by a publisher in order", async () => {
+        const { sdk, schemaId, write, notify } = await setup()
+        const updates: [Hex, bigint, unknown][] = []
+        const watcher = await sdk.streams.watchData(schemaId, { publisher: account.address, schema: position }, ({ key, index, record }) => {
+            updates.push([key, index, record])
+        })
+
+        await write(1, 10)
+        await write(2, 20)
+        await notify()
+        await settle()
+        expect(updates).toEqual([
+            [toHex(1, { size: 32 }), BigInt(0), { lat: BigInt(10), lng: BigInt(0) }],
+            [toHex(2, { size: 32 }), BigInt(1), { lat: BigInt(20), lng: BigInt(0) }],
+        ])
+        await watcher.unsubscribe()
+    })
+
+    it("backs stream handle watchers", async () => {
+        const { sdk, write, notify } = await setup()
+        const trips = sdk.streams.stream(position, { publisher: account.address })
+        const records: unknown[] = []
+        const watcher = await trips.watch({ onData: ({ record }) => records.push(record) })
+
+        await write(1, 5)
+        await notify()
+        await settle()
+        expect(records).toEqual([{ lat: BigInt(5), lng: BigInt(0) }])
+        await watcher.unsubscribe()
+    })
+
+    it("backfills every write of an overwritten key when resuming", async () => {
+        const { emulator, sdk, schemaId, write } = await setup()
+        const fromBlock = emulator.getBlockNumber() + BigInt(1)
+        await write(1, 1)
+        await write(1, 2)
+        await write(1, 3)
+
+        const store = new Map<string, string>()
+        const updates: [bigint | undefined, unknown][] = []
+        const watcher = await sdk.streams.watchData(schemaId, {
+            publisher: account.address,
+            schema: position,
+            resume: {
+                fromBlock,
+                store: {
+                    get: (key) => store.get(key),
+                    set: (key, value) => { store.set(key, value) },
+                    delete: (key) => { store.delete(key) },
+                    clear: () => store.clear(),
+                },
+                storeKey: "positions",
+            },
+        }, ({ record, position: at }) => updates.push([at?.blockNumber, record]))
+        await settle()
+
+        expect(updates).toEqual([1, 2, 3].map((lat, i) => [fromBlock + BigInt(i), { lat: BigInt(lat), lng: BigInt(0) }]))
+        expect(JSON.parse(store.get("positions")!).blockNumber).toBe(emulator.getBlockNumber().toString())
+        await watcher.unsubscribe()
+    })
+})
+
+describe("Streams.iteratePublisherData", () => {
+    async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+        const records: T[] = []
+        for await (const record of iterator) {
+            records.push(record)
+        }
+        return records
+    }
+
+    it("reads the history page by page in either direction", async () => {
+        const { sdk, schemaId, write } = await setup()
+        for (let n = 0; n < 7; n++) {
+            await write(n, n)
+        }
+        const pages = jest.spyOn(sdk.streams, "getBetweenRange")
+        const lat = (records: unknown[]) => records.map((record) => Number((record as { lat: bigint }).lat))
+
+        expect(lat(await collect(sdk.streams.iteratePublisherData(schemaId, account.address, { schema: position, pageSize: 3 }))))
+            .toEqual([0, 1, 2, 3, 4, 5, 6])
+        expect(pages.mock.calls.map(([, , start, end]) => [Number(start), Number(end)])).toEqual([[0, 3], [3, 6], [6, 7]])
+
+        pages.mockClear()
+        const reverse = sdk.streams.iteratePublisherData(schemaId, account.address, { schema: position, pageSize: 3, from: 1, to: 6, reverse: true })
+        expect(lat(await collect(reverse))).toEqual([5, 4, 3, 2, 1])
+        expect(pages.mock.calls.map(([, , start, end]) => [Number(start), Number(end)])).toEqual([[3, 6], [1, 3]])
+    })
+
+    it("stops reading once the caller stops iterating", async () => {
+        const { sdk, schemaId, write } = await setup()
+        for (let n = 0; n < 5; n++) {
+            await write(n, n)
+        }
+        const pages = jest.spyOn(sdk.streams, "getBetweenRange")
+        for await (const record of sdk.streams.iteratePublisherData(schemaId, account.address, { schema: position, pageSize: 2 })) {
+            if ((record as { lat: bigint }).lat === BigInt(1)) {
+                break
+            }
+        }
+        expect(pages).toHaveBeenCalledTimes(1)
+    })
+
+    it("clamps the range to the history and rejects invalid ranges", async () => {
+        const { sdk, schemaId, write } = await setup()
+        await write(0, 0)
+        expect(await collect(sdk.streams.iteratePublisherData(schemaId, account.address, { schema: position, to: 10 }))).toHaveLength(1)
+        expect(await collect(sdk.streams.iteratePublisherData(schemaId, account.address, { schema: position, from: 5 }))).toEqual([])
+        await expect(collect(sdk.streams.iteratePublisherData(schemaId, account.address, { from: 3, to: 2 })))
+            .rejects.toMatchObject({ code: StreamsErrorCode.InvalidRange })
+        await expect(collect(sdk.streams.iteratePublisherData(schemaId, account.address, { pageSize: 0 })))
+            .rejects.toMatchObject({ code: StreamsErrorCode.InvalidArgument })
+    })
+})
+
+describe("Streams chains", () => {
+    const address = "0x00000000000000000000000000000000000c4a1e"
+
+    function connect(emulator: StreamsEmulator, options: ConstructorParameters<typeof SDK>[1] = {}) {
+        return new SDK({
+            public: createPublicClient({ chain: emulator.chain, transport: emulator.transport }),
+        }, { errorMode: "throw", logLevel: "silent", ...options })
+    }
+
+    it("keeps the chains passed to an instance on that instance", async () => {
+        const emulator = new StreamsEmulator({ chainId: 4242, address })
+        const registered = connect(emulator, { chains: [{ chainId: 4242, name: "Preview", contracts: { STREAMS: address } }] })
+        await expect(registered.streams.computeSchemaId(position.schema)).resolves.toMatch(/^0x/)
+
+        await expect(connect(emulator).streams.computeSchemaId(position.schema)).rejects.toMatchObject({ code: StreamsErrorCode.UnsupportedChain })
+        expect(getSupportedChains().map(({ chainId }) => chainId)).not.toContain(4242)
+    })
+
+    it("rejects invalid chain and contract addresses", () => {
+        const emulator = new StreamsEmulator()
+        expect(() => connect(emulator, { chains: [{ chainId: 4242, name: "Preview", contracts: { STREAMS: "0x1234" } }] }))
+            .toThrow(StreamsValidationError)
+        expect(() => connect(emulator, { contractAddresses: { 4242: "0x1234" } })).toThrow(StreamsValidationError)
+    })
+})
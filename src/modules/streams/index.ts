@@ -2,16 +2,35 @@
  * Imports
  */
 import { Client, KnownContracts } from "@/types"
-import { getContractAddressAndAbi } from "@/services/smart-contracts"
-import { maybeLogContractError } from "@/services/logs"
+import { getContractAddressAndAbi, validateChainRegistration, ContractAddressAndAbi } from "@/services/smart-contracts"
+import { Logger, LogContext, createConsoleLogger, withLogLevel } from "@/services/logs"
+import {
+    StreamsError,
+    StreamsErrorCode,
+    StreamsContractError,
+    StreamsValidationError,
+    StreamsWalletError,
+    StreamsTransportError,
+    toStreamsError,
+} from "@/services/errors"
+import { SchemaCache } from "@/services/cache"
+import { decodeStreamsReceipt } from "@/services/transactions"
+import { compressDataStreams, decompressData } from "@/services/compression"
+import { KeyProvider, decryptData, encryptDataStreams, isEncryptedRecord } from "@/services/encryption"
 import {
     Hex,
     Address,
     Abi,
+    Account,
+    AbiEvent,
+    BlockNotFoundError,
+    getAddress,
+    pad,
+    slice,
+    stringify,
     toEventSelector,
 } from "viem"
-import { SchemaDecodedItem, SchemaEncoder } from "./encoder"
-import { zeroBytes32 } from "@/constants"
+import { zeroBytes32, MAX_SCHEMA_LINEAGE_DEPTH, DEFAULT_BATCH_MAX_ITEMS, DEFAULT_LOG_PAGE_SIZE, DEFAULT_READ_PAGE_SIZE, DEFAULT_MULTICALL_BATCH_SIZE } from "@/constants"
 import {
     SchemaReference,
     DataStream,
@@ -22,22 +41,140 @@ import {
     StreamsInterface,
     GetSomniaDataStreamsProtocolInfoResponse,
     EventSchemaRegistration,
+    ReadOptions,
+    ReadResult,
+    ReadRecord,
+    SchemaLineageEntry,
+    StreamsOptions,
+    TransactionHandle,
+    WaitOptions,
+    ErrorMode,
+    Outcome,
+    Result,
+    SchemaInfo,
+    SimulationResult,
+    WriteOptions,
+    WriteOutcome,
+    BatchChunk,
+    BatchChunkResult,
+    BatchOptions,
+    BatchWriteOptions,
+    BatchWriteResult,
+    PublisherOptions,
+    StreamHandleOptions,
+    EventLogQuery,
+    StreamsEventLog,
+    PublisherScan,
+    PublisherScanOptions,
+    PageReadOptions,
+    BulkReadOptions,
+    BulkResult,
+    EventSubscriptionOptions,
+    StreamSubscription,
+    DataWatchOptions,
+    DataUpdate,
+    LogPosition,
 } from "@/types/streams"
 import { assertAddressIsValid } from "@/utils/validation"
+import { planChunks, runChunks, validateBatchWrite } from "./batch"
+import { Publisher } from "./publisher"
+import { StructuredKey, resolveKey } from "./keys"
+import { StreamHandle } from "./handle"
+import { ES_STORE_EVENT_TOPIC, decodeEventStream, encodeEventStream, encodeTopicFilter, queryLogs } from "./events"
+import { PublisherIndex } from "./discovery"
+import { ContractCall, multicall } from "./multicall"
+import { TypedSchema } from "./schema"
+import {
+    ResumableSubscription,
+    decodeSubscriptionCalls,
+    encodeSubscriptionCalls,
+    executeSubscriptionCalls,
+    matchesTopicFilter,
+    subscriptionTopics,
+} from "./subscriptions"
 
 import {
-    SDK as Reactivity
+    SDK as Reactivity,
+    SubscriptionCallback,
  } from "@somnia-chain/reactivity"
 
 /**
  * Exports
  */
 export {SchemaEncoder} from "./encoder"
+export { defineSchema } from "./schema"
+export { Publisher } from "./publisher"
+export { StreamHandle } from "./handle"
+export { encodeEventStream, decodeEventStream } from "./events"
+export { defineKey, assertNoKeyCollisions, findKeyCollisions } from "./keys"
+
+type StreamsContract = ContractAddressAndAbi & {
+    chainId: number
+}
+
+export class Streams<M extends ErrorMode = "legacy"> extends Reactivity implements StreamsInterface<M> {
+    // Immutable schema metadata read from the protocol
+    protected readonly schemaCache: SchemaCache
+
+    // How failures are reported to callers
+    protected readonly errorMode: ErrorMode
+
+    // Destination for all SDK diagnostics
+    protected readonly logger: Logger
+
+    // Keys used to decrypt encrypted payloads when reading
+    protected readonly keyProvider?: KeyProvider
+
+    // Streams contract address by chain id overriding the known deployments, from the chains and addresses passed to this instance
+    protected readonly contractAddresses: Record<number, Address>
 
-export class Streams extends Reactivity implements StreamsInterface {
+    // Publishers seen writing to each schema, extended incrementally by getPublishersForSchema
+    private readonly publisherIndex = new PublisherIndex()
 
-    constructor(client: Client) {
+    // Resolved once per instance since the connected chain does not change
+    private streamsContract: Promise<StreamsContract> | null = null
+    private resolvedStreamsContract: StreamsContract | null = null
+
+    /**
+     * @param client Viem wrapper object for consuming the public client and optionally the wallet client for transactions
+     * @param options Optional configuration such as the storage backing the schema cache, the error mode and the logger
+     */
+    constructor(client: Client, options: StreamsOptions<M> = {}) {
         super(client)
+        this.schemaCache = options.cache instanceof SchemaCache ? options.cache : new SchemaCache(options.cache)
+        this.errorMode = options.errorMode ?? "legacy"
+        if (options.logger) {
+            this.logger = options.logLevel ? withLogLevel(options.logger, options.logLevel) : options.logger
+        } else {
+            this.logger = createConsoleLogger(options.logLevel)
+        }
+        this.keyProvider = options.keyProvider
+
+        // Chains passed to an instance stay on it, registerChain is the only way to add chains for every instance
+        const chainAddresses: Record<number, Address> = {}
+        for (const chain of options.chains ?? []) {
+            const streams = validateChainRegistration(chain).find(([contract]) => contract === KnownContracts.STREAMS)
+            if (streams) {
+                chainAddresses[chain.chainId] = streams[1]
+            }
+        }
+        Object.values(options.contractAddresses ?? {}).forEach((address) => assertAddressIsValid(address))
+        this.contractAddresses = { ...chainAddresses, ...options.contractAddresses }
+    }
+
+    /**
+     * Drop cached schema metadata so that it is read from chain again on next use
+     * @param schemaId Schema to invalidate, otherwise every cached entry is removed
+     */
+    public async invalidateSchemaCache(schemaId?: SchemaID): Promise<Outcome<void, M>> {
+        return this.execute("invalidateSchemaCache", { schemaId }, async () => {
+            if (schemaId) {
+                const { address } = await this.getStreamsContract()
+                await this.schemaCache.invalidateSchema(await this.schemaCacheScope(address), schemaId)
+            } else {
+                await this.schemaCache.clear()
+            }
+        })
     }
 
     /**
@@ -47,90 +184,55 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param streamsEventId Identifier of the registered streams event
      * @param emitter Wallet address
      * @param isEmitter Flag to enable or disable the emitter
-     * @returns Transaction hash if successful, Error object if unsuccessful
+     * @param options Optional pre-flight simulation or dry run
+     * @returns Transaction handle (simulation when dry running) if successful, Error object if unsuccessful
      */
-    public async manageEventEmittersForRegisteredStreamsEvent(
+    public async manageEventEmittersForRegisteredStreamsEvent<O extends WriteOptions = WriteOptions>(
         streamsEventId: string,
         emitter: Address,
-        isEmitter: boolean
-    ): Promise<Hex | Error> {
-        assertAddressIsValid(emitter)
-        try {
-            // Resolve the chain id based on connected clients
-            const chainId = await this.viem.getChainId()
+        isEmitter: boolean,
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>> {
+        return this.execute("manageEventEmittersForRegisteredStreamsEvent", { streamsEventId, emitter, isEmitter, options }, async () => {
+            assertAddressIsValid(emitter)
 
-            const {
-                address,
-                abi
-            } = await getContractAddressAndAbi({ 
-                internal: KnownContracts.STREAMS,
-                chainId 
-            })
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
-            const txHash = await this.viem.writeContract(
+            return this.sendTransaction(
                 address,
-                abi!,
+                abi,
                 "manageEventEmitter",
-                [streamsEventId, emitter, isEmitter]
+                [streamsEventId, emitter, isEmitter],
+                options
             )
-
-            if (txHash === null) {
-                return new Error("Failed to send transaction - check wallet client")
-            }
-
-            return txHash
-        } catch (e) {
-            maybeLogContractError(e, "Failed to manage event emitter")
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
      * Gives an event registrar the ability to open an event to be emitted by anyone
      * @param streamsEventId Identifier of the registered streams event
      * @param isOpen Enable or disable the feature based on this flag
-     * @returns Transaction hash if successful or Error
+     * @param options Optional pre-flight simulation or dry run
+     * @returns Transaction handle (simulation when dry running) if successful or Error
      */
-    public async setIsEventEmissionOpen(
+    public async setIsEventEmissionOpen<O extends WriteOptions = WriteOptions>(
         streamsEventId: string,
-        isOpen: boolean
-    ): Promise<Hex | Error> {
-        try {
-            // Resolve the chain id based on connected clients
-            const chainId = await this.viem.getChainId()
-
-            const {
-                address,
-                abi
-            } = await getContractAddressAndAbi({ 
-                internal: KnownContracts.STREAMS,
-                chainId 
-            })
-
-            const txHash = await this.viem.writeContract(
+        isOpen: boolean,
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>> {
+        return this.execute("setIsEventEmissionOpen", { streamsEventId, isOpen, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
+
+            return this.sendTransaction(
                 address,
-                abi!,
+                abi,
                 "setIsEventEmissionOpen",
-                [streamsEventId, isOpen]
+                [streamsEventId, isOpen],
+                options
             )
-
-            if (txHash === null) {
-                return new Error("Failed to send transaction - check wallet client")
-            }
-
-            return txHash
-        } catch (e) {
-            maybeLogContractError(e, "Failed to manage event emission")
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
@@ -138,66 +240,49 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @dev Note that the state will be written to chain before any event(s) is/are emitted
      * @param dataStreams Bytes stream array that has unique keys referencing schemas
      * @param eventStreams Somnia stream event ids and associated arguments to emit EVM logs
-     * @returns Transaction hash if successful or Error object
+     * @param options Optional pre-flight simulation, dry run, compression, encryption or batching across several transactions
+     * @returns Transaction handle (simulation when dry running, per chunk results when batching) if successful or Error object
      */
-    public async setAndEmitEvents(
+    public async setAndEmitEvents<O extends BatchWriteOptions = BatchWriteOptions>(
         dataStreams: DataStream[],
-        eventStreams: EventStream[]
-    ): Promise<Hex | Error> {
-        try {
-            // Resolve the chain id based on connected clients
-            const chainId = await this.viem.getChainId()
+        eventStreams: EventStream[],
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>> {
+        return this.execute("setAndEmitEvents", { dataStreams, eventStreams, options }, async () => {
+            validateBatchWrite(dataStreams, eventStreams, options ?? {})
 
-            const {
-                address,
-                abi
-            } = await getContractAddressAndAbi({ 
-                internal: KnownContracts.STREAMS,
-                chainId 
-            })
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Apply calldata compression, then write the data stream and event streams to chain
-            const txHash = await this.viem.writeContract(
+            const payload = await this.preparePayload(dataStreams, options)
+            if (options?.batch) {
+                return this.sendInChunks(address, abi, payload, eventStreams, options.batch, options) as Promise<WriteOutcome<O>>
+            }
+
+            return this.sendTransaction(
                 address,
-                abi!,
+                abi,
                 "publishDataAndEmitEvents",
-                [dataStreams, eventStreams]
+                [payload, eventStreams],
+                options
             )
-
-            if (txHash === null) {
-                return new Error("Failed to send transaction - check wallet client")
-            }
-
-            return txHash
-        } catch (e) {
-            maybeLogContractError(e, "Failed to publish data and emit events")
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
      * Register a set of event schemas that can emit EVM logs later referenced by an arbitrary ID
      * @param registrations Unique event schemas that contain an event topic and a specified number of indexed and non-indexed params
-     * @returns Transaction hash if successful or Error
+     * @param options Optional pre-flight simulation or dry run
+     * @returns Transaction handle (simulation when dry running) if successful or Error
      */
-    public async registerEventSchemas(
-        registrations: EventSchemaRegistration[]
-    ): Promise<Hex | Error> {
-        try {
-            // Resolve the chain id based on connected clients
-            const chainId = await this.viem.getChainId()
-
-            const {
-                address,
-                abi
-            } = await getContractAddressAndAbi({ 
-                internal: KnownContracts.STREAMS,
-                chainId 
-            })
+    public async registerEventSchemas<O extends WriteOptions = WriteOptions>(
+        registrations: EventSchemaRegistration[],
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>> {
+        return this.execute("registerEventSchemas", { registrations, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Allow for event signatures to be supplied which will then compute the event selector
             const mappedRegistrations: EventSchemaRegistration[] = registrations.map(registration => {
@@ -215,70 +300,92 @@ export class Streams extends Reactivity implements StreamsInterface {
             })
 
             // Fire the register event schema
-            const txHash = await this.viem.writeContract(
+            return this.sendTransaction(
                 address,
-                abi!,
+                abi,
                 "registerEventSchemas",
-                [mappedRegistrations]
+                [mappedRegistrations],
+                options
             )
-
-            if (txHash === null) {
-                return new Error("Failed to send transaction - check wallet client")
-            }
-
-            return txHash
-        } catch (e) {
-            maybeLogContractError(e, "Failed to register event schema")
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
      * Emit EVM event logs on-chain for events that have registered schemas on the Somnia streams protocol
      * @param events Somnia stream event ids and associated arguments to emit EVM logs
-     * @returns Transaction hash if successful or Error object
+     * @param options Optional pre-flight simulation or dry run
+     * @returns Transaction handle (simulation when dry running) if successful or Error object
      */
-    public async emitEvents(
-        events: EventStream[]
-    ): Promise<Hex | Error> {
-        try {
-            // Resolve the chain id based on connected clients
-            const chainId = await this.viem.getChainId()
-            
-            // Fetch the contract address and abi based on the connected chain
-            const {
-                address,
-                abi
-            } = await getContractAddressAndAbi({ 
-                internal: KnownContracts.STREAMS,
-                chainId 
-            })
+    public async emitEvents<O extends WriteOptions = WriteOptions>(
+        events: EventStream[],
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>> {
+        return this.execute("emitEvents", { events, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Execute the transaction to emit the event schema
-            const txHash = await this.viem.writeContract(
+            return this.sendTransaction(
                 address,
-                abi!,
+                abi,
                 "emitEvents",
-                [events]
+                [events],
+                options
             )
+        })
+    }
 
-            if (txHash === null) {
-                return new Error("Failed to send transaction - check wallet client")
+    /**
+     * Build an event stream for emitEvents from named argument values, checked against the registered event schema
+     * @dev Indexed parameters are encoded as argument topics and the remaining parameters as ABI encoded data
+     * @param eventId Identifier the event schema was registered under
+     * @param values Value of every event parameter by name
+     * @param schema Event schema to encode against, read from chain when not supplied
+     * @returns Event stream ready to be emitted or Error if the values do not match the schema
+     */
+    public async buildEventStream(
+        eventId: string,
+        values: Record<string, unknown>,
+        schema?: EventSchema
+    ): Promise<Outcome<EventStream, M>> {
+        return this.execute("buildEventStream", { eventId, values, schema }, async () => {
+            const eventSchema = schema ?? (await this.unwrap(this.getEventSchemasById([eventId])))[0]
+            if (!eventSchema) {
+                throw new StreamsValidationError(StreamsErrorCode.EventSchemaNotRegistered, `Event ${eventId} is not registered`)
             }
+            return encodeEventStream(eventId, eventSchema, values)
+        })
+    }
 
-            return txHash
-        } catch (e) {
-            maybeLogContractError(e, "Failed to emit events")
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+    /**
+     * Create a queue for publishing many transactions from the connected wallet without nonce collisions
+     * @param options Queue limits, retry and fee bump configuration
+     * @returns Publisher that assigns nonces locally and pipelines transactions
+     */
+    public createPublisher(options: PublisherOptions = {}): Publisher<M> {
+        return new Publisher<M>({
+            client: this.viem.client,
+            logger: this.logger,
+            getStreamsContract: () => this.getStreamsContract(),
+            resolveSender: () => this.resolveSender(),
+            execute: (method, args, fn) => this.execute(method, args, fn),
+        }, options)
+    }
+
+    /**
+     * Bind a schema and publisher into a handle for reading and writing one logical stream
+     * @example const drivers = sdk.streams.stream("uint64 timestamp, address driver", { publisher })
+     * @param schema Raw schema string or typed schema, from which the record types of the handle are inferred
+     * @param options Publisher to read from (defaults to the connected wallet), known schema id and schema registration
+     * @returns Stream handle
+     */
+    public stream<const S extends string>(schema: S | TypedSchema<S>, options: StreamHandleOptions = {}): StreamHandle<S, M> {
+        return new StreamHandle<S, M>({
+            streams: this,
+            resolveSender: () => this.resolveSender(),
+            execute: (method, args, fn) => this.execute(method, args, fn),
+            unwrap: (outcome) => this.unwrap(outcome),
+        }, schema, options)
     }
 
     /**
@@ -286,31 +393,19 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param schema The solidity compatible schema encoded in a string
      * @returns The bytes32 schema ID or Error
      */
-    public async computeSchemaId(schema: string): Promise<Hex | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+    public async computeSchemaId(schema: string): Promise<Outcome<Hex, M>> {
+        return this.execute("computeSchemaId", { schema }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Get the schema id
-            return this.viem.readContract<Hex>(
+            return await this.viem.readContract<Hex>(
                 address,
                 abi,
                 "computeSchemaId",
                 [schema]
             )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
@@ -318,31 +413,19 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param schemaId Hex schema ID that is a bytes32 solidity value
      * @returns Boolean denoting registration or Error if it was not possible to register that info
      */
-    public async isDataSchemaRegistered(schemaId: SchemaID): Promise<boolean | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+    public async isDataSchemaRegistered(schemaId: SchemaID): Promise<Outcome<boolean, M>> {
+        return this.execute("isDataSchemaRegistered", { schemaId }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Get the schema id
-            return this.viem.readContract<boolean>(
+            return await this.viem.readContract<boolean>(
                 address,
                 abi,
                 "isSchemaRegistered",
                 [schemaId]
             )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
@@ -354,32 +437,21 @@ export class Streams extends Reactivity implements StreamsInterface {
     public async totalPublisherDataForSchema(
         schemaId: SchemaID,
         publisher: Address
-    ): Promise<bigint | Error> {
-        assertAddressIsValid(publisher)
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
+    ): Promise<Outcome<bigint, M>> {
+        return this.execute("totalPublisherDataForSchema", { schemaId, publisher }, async () => {
+            assertAddressIsValid(publisher)
 
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Get the schema id
-            return this.viem.readContract<bigint>(
+            return await this.viem.readContract<bigint>(
                 address,
                 abi,
                 "totalPublisherDataForSchema",
                 [schemaId, publisher]
             )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
@@ -388,27 +460,22 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param publisher Address of the wallet or smart contract that published the data
      * @param startIndex BigInt start of the range (inclusive)
      * @param endIndex BigInt end of the range (exclusive)
+     * @param options Optional typed schema or plain object decoding of the data
      * @returns Raw bytes array if the schema is private, decoded data array if schema is valid, or error
      */
-    public async getBetweenRange(
+    public async getBetweenRange<O extends ReadOptions = ReadOptions>(
         schemaId: SchemaID,
         publisher: Address,
         startIndex: bigint,
-        endIndex: bigint
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error> {
-        // Ensure the publisher address is valid
-        assertAddressIsValid(publisher)
+        endIndex: bigint,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>> {
+        return this.execute("getBetweenRange", { schemaId, publisher, startIndex, endIndex, options }, async () => {
+            // Ensure the publisher address is valid
+            assertAddressIsValid(publisher)
 
-        // Get data between range
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Read from chain with a single multicall call that avoids contractViewCalls.length rpc calls
             const rawData = await this.viem.readContract<Hex[]>(
@@ -419,13 +486,57 @@ export class Streams extends Reactivity implements StreamsInterface {
             )
 
             // Extract the raw data and ask the SDK to deserialise using the data schema specified
-            return this.deserialiseRawData(rawData, schemaId)
-        } catch (e) {
-            maybeLogContractError(e, "getBetweenRange: Failed to get data")
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
+            return this.unwrap(this.deserialiseRawData(rawData, schemaId, options))
+        })
+    }
+
+    /**
+     * Iterate over the data a publisher wrote for a schema one page at a time so that long histories are read with bounded memory
+     * @dev The number of records is read when iteration starts, records written afterwards are not included
+     * @dev Failures are thrown from the iterator whatever the error mode
+     * @example for await (const record of sdk.streams.iteratePublisherData(schemaId, publisher, { schema })) { ... }
+     * @param schemaId Unique hex reference to the schema (bytes32 value)
+     * @param publisher Address of the wallet or smart contract that published the data
+     * @param options Page size, index range, direction and decoding of the data
+     * @returns Async iterator over the records in the requested order
+     */
+    public async *iteratePublisherData<O extends PageReadOptions = PageReadOptions>(
+        schemaId: SchemaID,
+        publisher: Address,
+        options?: O
+    ): AsyncGenerator<ReadRecord<O>, void, undefined> {
+        const pageSize = options?.pageSize ?? DEFAULT_READ_PAGE_SIZE
+        if (!Number.isInteger(pageSize) || pageSize < 1) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "pageSize must be a positive integer")
+        }
+        assertAddressIsValid(publisher)
+
+        const total = await this.unwrap(this.totalPublisherDataForSchema(schemaId, publisher))
+        const from = BigInt(options?.from ?? 0)
+        const requestedTo = options?.to === undefined ? total : BigInt(options.to)
+        const to = requestedTo < total ? requestedTo : total
+        // Starting past the end of the history is not an error when no end was requested, there is simply nothing to read yet
+        if (from < BigInt(0) || (options?.to !== undefined && requestedTo < from)) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidRange, `Invalid range [${from}, ${requestedTo})`)
+        }
+
+        const size = BigInt(pageSize)
+        if (options?.reverse) {
+            for (let end = to; end > from; end -= size) {
+                const start = end - size > from ? end - size : from
+                const page = await this.unwrap(this.getBetweenRange<O>(schemaId, publisher, start, end, options)) as unknown as ReadRecord<O>[]
+                for (let i = page.length - 1; i >= 0; i--) {
+                    yield page[i]
+                }
+            }
+            return
+        }
+
+        for (let start = from; start < to; start += size) {
+            const end = start + size < to ? start + size : to
+            const page = await this.unwrap(this.getBetweenRange<O>(schemaId, publisher, start, end, options)) as unknown as ReadRecord<O>[]
+            for (const record of page) {
+                yield record
             }
         }
     }
@@ -435,23 +546,20 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param schemaId Unique schema reference that can be computed from the full schema
      * @param publisher Wallet that published the data
      * @param idx Index of the data in an append only list associated with the data publisher wallet
+     * @param options Optional typed schema or plain object decoding of the data
      * @returns Raw data as a hex string if the schema is private, deserialised data or Error if the data does not exist
      */
-    public async getAtIndex(
+    public async getAtIndex<O extends ReadOptions = ReadOptions>(
         schemaId: SchemaID,
         publisher: Address,
-        idx: bigint
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error> {
-        assertAddressIsValid(publisher)
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
+        idx: bigint,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>> {
+        return this.execute("getAtIndex", { schemaId, publisher, idx, options }, async () => {
+            assertAddressIsValid(publisher)
 
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Read from chain
             const rawData = await this.viem.readContract<Hex>(
@@ -461,14 +569,8 @@ export class Streams extends Reactivity implements StreamsInterface {
                 [schemaId, publisher, idx]
             )
 
-            return this.deserialiseRawData([rawData], schemaId)
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+            return this.unwrap(this.deserialiseRawData([rawData], schemaId, options))
+        })
     }
 
     /**
@@ -476,31 +578,29 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param schemaId Hex identifier of the schema being queried
      * @returns A hex value (bytes32) that is fully zero'd if there is no parent or Error if the info cannot be retrieved
      */
-    public async parentSchemaId(schemaId: SchemaID): Promise<Hex | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+    public async parentSchemaId(schemaId: SchemaID): Promise<Outcome<Hex, M>> {
+        return this.execute("parentSchemaId", { schemaId }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
+
+            // Registered parents never change so a cached parent can be trusted, zero is only cached for schemas confirmed as registered
+            const scope = await this.schemaCacheScope(address)
+            const cachedParentSchemaId = await this.schemaCache.getParentSchemaId(scope, schemaId)
+            if (cachedParentSchemaId !== undefined) {
+                return cachedParentSchemaId
+            }
 
-            // Get the schema id
-            return this.viem.readContract<Hex>(
+            const parentSchemaId = await this.viem.readContract<Hex>(
                 address,
                 abi,
                 "parentSchemaId",
                 [schemaId]
             )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
+            if (parentSchemaId !== zeroBytes32) {
+                await this.schemaCache.setParentSchemaId(scope, schemaId, parentSchemaId)
             }
-        }
+            return parentSchemaId
+        })
     }
 
     /**
@@ -508,31 +608,13 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param schemaId Hex encoded schema ID computed from the raw schema using computeSchemaId
      * @returns The human readable identifier for a schema or Error
      */
-    public async schemaIdToSchemaName(schemaId: SchemaID): Promise<string | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+    public async schemaIdToSchemaName(schemaId: SchemaID): Promise<Outcome<string, M>> {
+        return this.execute("schemaIdToSchemaName", { schemaId }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
-            // Get the schema id
-            return this.viem.readContract<Hex>(
-                address,
-                abi,
-                "schemaIdToName",
-                [schemaId]
-            )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+            return await this.readSchemaName(address, abi, schemaId)
+        })
     }
 
     /**
@@ -540,51 +622,46 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param schemaName Human readable identifier
      * @returns Hex schema id (bytes32 solidity type) or Error
      */
-    public async schemaNameToSchemaId(schemaName: string): Promise<SchemaID | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+    public async schemaNameToSchemaId(schemaName: string): Promise<Outcome<SchemaID, M>> {
+        return this.execute("schemaNameToSchemaId", { schemaName }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
+
+            // Names can only be assigned once so a cached mapping can be trusted
+            const scope = await this.schemaCacheScope(address)
+            const cachedSchemaId = await this.schemaCache.getSchemaIdForName(scope, schemaName)
+            if (cachedSchemaId !== undefined) {
+                return cachedSchemaId
+            }
 
-            // Get the schema id
-            return this.viem.readContract<Hex>(
+            const schemaId = await this.viem.readContract<Hex>(
                 address,
                 abi,
                 "nameToSchemaId",
                 [schemaName]
             )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
+            if (schemaId !== zeroBytes32) {
+                await this.schemaCache.setSchemaName(scope, schemaId, schemaName)
             }
-        }
+            return schemaId
+        })
     }
 
     /**
      * Batch register multiple schemas that can be used to write state to chain
      * @param registrations Array of raw schemas and any parent schemas associated (if extending a schema)
-     * @returns Transaction hash if successful or Error if one is present
+     * @param ignoreRegisteredSchemas Skip registrations whose schema is already registered
+     * @param options Optional pre-flight simulation or dry run
+     * @returns Transaction handle (simulation when dry running) if successful or Error if one is present
      */
-    public async registerDataSchemas(
+    public async registerDataSchemas<O extends WriteOptions = WriteOptions>(
         registrations: DataSchemaRegistration[],
-        ignoreRegisteredSchemas?: boolean
-    ): Promise<Hex | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+        ignoreRegisteredSchemas?: boolean,
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>> {
+        return this.execute("registerDataSchemas", { registrations, ignoreRegisteredSchemas, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             let schemasToRegister: DataSchemaRegistration[] = registrations.map(registration => ({
                 schemaName: registration.schemaName,
@@ -595,16 +672,8 @@ export class Streams extends Reactivity implements StreamsInterface {
             if (ignoreRegisteredSchemas) {
                 // Perform additional calls to check if the schemas are already registered
                 const registrationsWithStatus = await Promise.all(registrations.map(async (registration) => {
-                    const computeSchemaIdResult = await this.computeSchemaId(registration.schema)
-
-                    if (computeSchemaIdResult instanceof Error) {
-                        return computeSchemaIdResult
-                    }
-
-                    const isRegisteredResult = await this.isDataSchemaRegistered(computeSchemaIdResult)
-                    if (isRegisteredResult instanceof Error) {
-                        return isRegisteredResult
-                    }
+                    const computeSchemaIdResult = await this.unwrap(this.computeSchemaId(registration.schema))
+                    const isRegisteredResult = await this.unwrap(this.isDataSchemaRegistered(computeSchemaIdResult))
 
                     return {
                         schemaName: registration.schemaName,
@@ -616,14 +685,6 @@ export class Streams extends Reactivity implements StreamsInterface {
 
                 // Filter for only unregistered schemas
                 schemasToRegister = registrationsWithStatus
-                    .map((registrationResult) => {
-                        // Throw any errors encountered
-                        if (registrationResult instanceof Error) {
-                            throw registrationResult
-                        }
-                        // otherwise, return the registration info
-                        return registrationResult
-                    })
                     .filter((registration) => !registration.isRegistered)
                     .map((registration) => ({
                         schemaName: registration.schemaName,
@@ -633,120 +694,85 @@ export class Streams extends Reactivity implements StreamsInterface {
             }
 
             if (schemasToRegister.length === 0) {
-                throw new Error("Nothing to register")
+                throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "Nothing to register")
             }
 
-            const txHash = await this.viem.writeContract(
+            return this.sendTransaction(
                 address,
                 abi,
                 "registerSchemas",
-                [schemasToRegister]
+                [schemasToRegister],
+                options
             )
-
-            if (txHash === null) {
-                return new Error("Failed to send transaction - check wallet client")
-            }
-
-            return txHash
-        } catch (e) {
-            maybeLogContractError(e, "Failed to manage event emitter")
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
      * Write data to chain using data streams that can be parsed by schemas
      * @param dataStreams Bytes stream array that has unique keys referencing schemas
-     * @returns Transaction hash or Error
+     * @param options Optional pre-flight simulation, dry run, compression, encryption or batching across several transactions
+     * @returns Transaction handle (simulation when dry running, per chunk results when batching) or Error
      */
-    public async set(
-        dataStreams: DataStream[]
-    ): Promise<Hex | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
+    public async set<O extends BatchWriteOptions = BatchWriteOptions>(
+        dataStreams: DataStream[],
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>> {
+        return this.execute("set", { dataStreams, options }, async () => {
+            validateBatchWrite(dataStreams, [], options ?? {})
 
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Apply calldata compression, then write the data stream to chain
-            const txHash = await this.viem.writeContract(
+            const payload = await this.preparePayload(dataStreams, options)
+            if (options?.batch) {
+                return this.sendInChunks(address, abi, payload, [], options.batch, options) as Promise<WriteOutcome<O>>
+            }
+
+            return this.sendTransaction(
                 address,
                 abi,
                 "esstores",
-                [dataStreams]
+                [payload],
+                options
             )
-
-            if (txHash === null) {
-                return new Error("Failed to send transaction - check wallet client")
-            }
-
-            return txHash
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
      * Fetches all raw, registered public schemas that can be used to deserialise data associated with the schema ids
      * @returns Array of full schemas or Error if there was an issue fetching schemas
      */
-    public async getAllSchemas(): Promise<string[] | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+    public async getAllSchemas(): Promise<Outcome<string[], M>> {
+        return this.execute("getAllSchemas", {}, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
-            return this.viem.readContract<string[]>(
+            return await this.viem.readContract<string[]>(
                 address,
                 abi,
                 "getAllSchemas"
             )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
      * Query Somnia Data streams for all data published by a specific wallet for a given schema
      * @param schemaId Unique schema reference to a public or private schema or the full schema
      * @param publisher Wallet that broadcast the data on-chain
+     * @param options Optional typed schema or plain object decoding of the data
      * @returns A hex array with (raw data) for private schemas, SchemaDecodedItem 2D array for decoded data or Error
      */
-    public async getAllPublisherDataForSchema(
+    public async getAllPublisherDataForSchema<O extends ReadOptions = ReadOptions>(
         schemaId: SchemaID,
-        publisher: Address
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error> {
-        assertAddressIsValid(publisher)
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
+        publisher: Address,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>> {
+        return this.execute("getAllPublisherDataForSchema", { schemaId, publisher, options }, async () => {
+            assertAddressIsValid(publisher)
 
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Read from chain
             const rawData = await this.viem.readContract<Hex[]>(
@@ -756,65 +782,143 @@ export class Streams extends Reactivity implements StreamsInterface {
                 [schemaId, publisher]
             )
 
-            return this.deserialiseRawData(rawData, schemaId)
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+            return this.unwrap(this.deserialiseRawData(rawData, schemaId, options))
+        })
     }
 
     /**
      * Read state from the Somnia streams protocol that was written via set or setAndEmitEvents
      * @param schemaId Unique hex identifier for the schema associated with the raw data written to chain
      * @param publisher Address of the wallet that wrote the data to chain
-     * @param key Unique reference to the data being read
-     * @returns The raw data, decoded items or Error
+     * @param key Unique reference to the data being read, either the raw bytes32 key or a structured key
+     * @param options Optional typed schema or plain object decoding of the data
+     * @returns The raw data, decoded items, an empty list when nothing was written under the key, or Error
      */
-    public async getByKey(
+    public async getByKey<O extends ReadOptions = ReadOptions>(
         schemaId: SchemaID,
         publisher: Address,
-        key: Hex
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error> {
-        assertAddressIsValid(publisher)
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
+        key: Hex | StructuredKey,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>> {
+        return this.execute("getByKey", { schemaId, publisher, key, options }, async () => {
+            assertAddressIsValid(publisher)
 
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Get the index associated with the data key
             const index = await this.viem.readContract<bigint>(
                 address,
                 abi,
                 "publisherDataIndex",
-                [schemaId, publisher, key]
+                [schemaId, publisher, resolveKey(key)]
             )
 
             // Due to the contract storing data pointers incremented by one (Solidity limitation)
             // We have to adjust the index to get the correct data
-            // We get an array index out of bounds other wise
+            // Zero means nothing was written under the key
+            if (index === BigInt(0)) {
+                return [] as Hex[] as ReadResult<O>
+            }
             const adjustedIndex = index - BigInt(1)
 
             // Return the data at the adjusted index for a publisher and schema
-            return this.getAtIndex(
+            return this.unwrap(this.getAtIndex(
                 schemaId,
                 publisher,
-                adjustedIndex
-            )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+                adjustedIndex,
+                options
+            ))
+        })
+    }
+
+    /**
+     * Read the state written under many keys by one publisher, batched through Multicall3
+     * @param schemaId Unique hex identifier for the schema associated with the raw data written to chain
+     * @param publisher Address of the wallet that wrote the data to chain
+     * @param keys Raw bytes32 keys or structured keys
+     * @param options Calls per request and decoding of the data
+     * @returns Result of every key in the order supplied, undefined for keys that were never written, or Error
+     */
+    public async getByKeys<O extends BulkReadOptions = BulkReadOptions>(
+        schemaId: SchemaID,
+        publisher: Address,
+        keys: (Hex | StructuredKey)[],
+        options?: O
+    ): Promise<Outcome<BulkResult<ReadRecord<O> | undefined>[], M>> {
+        return this.execute("getByKeys", { schemaId, publisher, keys, options }, async () => {
+            assertAddressIsValid(publisher)
+
+            // Resolve the protocol contract for the connected chain
+            const contract = await this.getStreamsContract()
+
+            // Data indexes are stored incremented by one so that zero means the key was never written
+            const indexes = await this.bulkCall<bigint>(contract, keys.map((key) => ({
+                functionName: "publisherDataIndex",
+                args: [schemaId, publisher, resolveKey(key)],
+            })), options?.batchSize)
+
+            return this.readAtIndexes<O>(contract, schemaId, indexes.map((index) => {
+                if (index.status === "failure") {
+                    return index.error
+                }
+                return index.result === BigInt(0) ? undefined : { publisher, index: index.result - BigInt(1) }
+            }), options)
+        })
+    }
+
+    /**
+     * Read the most recent data written by many publishers for a schema, batched through Multicall3
+     * @param schemaId Unique hex identifier for the schema
+     * @param publishers Addresses of the wallets that wrote the data
+     * @param options Calls per request and decoding of the data
+     * @returns Result of every publisher in the order supplied, undefined for publishers without data, or Error
+     */
+    public async getLatestForPublishers<O extends BulkReadOptions = BulkReadOptions>(
+        schemaId: SchemaID,
+        publishers: Address[],
+        options?: O
+    ): Promise<Outcome<BulkResult<ReadRecord<O> | undefined>[], M>> {
+        return this.execute("getLatestForPublishers", { schemaId, publishers, options }, async () => {
+            const counts = await this.unwrap(this.getCounts(schemaId, publishers, options))
+
+            // Resolve the protocol contract for the connected chain
+            const contract = await this.getStreamsContract()
+
+            return this.readAtIndexes<O>(contract, schemaId, counts.map((count, i) => {
+                if (count.status === "failure") {
+                    return count.error
+                }
+                return count.result === BigInt(0) ? undefined : { publisher: publishers[i], index: count.result - BigInt(1) }
+            }), options)
+        })
+    }
+
+    /**
+     * Total data points published by many publishers for a schema, batched through Multicall3
+     * @param schemaId Unique hex identifier for the schema
+     * @param publishers Addresses of the wallets that wrote the data
+     * @param options Calls per request
+     * @returns Count of every publisher in the order supplied or Error
+     */
+    public async getCounts(
+        schemaId: SchemaID,
+        publishers: Address[],
+        options?: BulkReadOptions
+    ): Promise<Outcome<BulkResult<bigint>[], M>> {
+        return this.execute("getCounts", { schemaId, publishers, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const contract = await this.getStreamsContract()
+
+            return this.bulkCall<bigint>(contract, publishers.map((publisher) => {
+                try {
+                    assertAddressIsValid(publisher)
+                } catch (e) {
+                    return toStreamsError(e)
+                }
+                return { functionName: "totalPublisherDataForSchema", args: [schemaId, publisher] }
+            }), options?.batchSize)
+        })
     }
 
     /**
@@ -822,30 +926,360 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param ids Set of event schema identifiers given to registered event topics
      * @returns Set of event schemas or Error if the data cannot be read from chain
      */
-    public async getEventSchemasById(ids: string[]): Promise<EventSchema[] | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
+    public async getEventSchemasById(ids: string[]): Promise<Outcome<EventSchema[], M>> {
+        return this.execute("getEventSchemasById", { ids }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
-
-            return this.viem.readContract<EventSchema[]>(
+            return await this.viem.readContract<EventSchema[]>(
                 address,
                 abi,
                 "getEventSchemasById",
                 [ids]
             )
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
+        })
+    }
+
+    /**
+     * Look up the identifier an event schema was registered under from its event topic
+     * @param topic bytes32 event topic of the registered event schema
+     * @returns Event schema identifier, empty when the topic is not registered, or Error
+     */
+    public async eventIdFromTopic(topic: Hex): Promise<Outcome<string, M>> {
+        return this.execute("eventIdFromTopic", { topic }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
+
+            return await this.viem.readContract<string>(
+                address,
+                abi,
+                "eventIdFromTopic",
+                [topic]
+            )
+        })
+    }
+
+    /**
+     * Read back events emitted through emitEvents or setAndEmitEvents, decoded with their registered event schemas
+     * @dev The block range is searched in pages so that large ranges do not exceed the limits of the node
+     * @param eventId Event schema identifier to read, or undefined for every event emitted through the protocol
+     * @param query Block range, filters on indexed parameters and page size
+     * @returns Decoded events in the order they were emitted or Error
+     */
+    public async getEventLogs(eventId: string | undefined, query: EventLogQuery): Promise<Outcome<StreamsEventLog[], M>> {
+        return this.execute("getEventLogs", { eventId, query }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
+
+            // Event schemas by lower case event topic, null for topics that are not registered
+            const schemas = new Map<string, { eventId: string, schema: EventSchema } | null>()
+            let topics: (Hex | Hex[] | null)[] = []
+            if (eventId !== undefined) {
+                const [schema] = await this.unwrap(this.getEventSchemasById([eventId]))
+                if (!schema || BigInt(schema.eventTopic) === BigInt(0)) {
+                    throw new StreamsValidationError(StreamsErrorCode.EventSchemaNotRegistered, `Event ${eventId} is not registered`)
+                }
+                schemas.set(schema.eventTopic.toLowerCase(), { eventId, schema })
+                topics = [schema.eventTopic as Hex, ...encodeTopicFilter(schema, query.filters)]
+            } else if (query.filters && Object.keys(query.filters).length > 0) {
+                throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "Filtering on parameters requires an event id")
             }
-        }
+
+            // Logs of the protocol's own events are not streams events
+            const protocolTopics = new Set(abi
+                .filter((item): item is AbiEvent => item.type === "event")
+                .map((item) => toEventSelector(item).toLowerCase()))
+
+            const logs: StreamsEventLog[] = []
+            await queryLogs(this.viem.client, {
+                address,
+                topics,
+                fromBlock: query.fromBlock,
+                toBlock: query.toBlock ?? await this.viem.client.public.getBlockNumber({ cacheTime: 0 }),
+                pageSize: query.pageSize ?? DEFAULT_LOG_PAGE_SIZE,
+            }, async (page) => {
+                for (const log of page) {
+                    const [eventTopic, ...argumentTopics] = log.topics as Hex[]
+                    if (!eventTopic || protocolTopics.has(eventTopic.toLowerCase())) {
+                        continue
+                    }
+
+                    if (!schemas.has(eventTopic.toLowerCase())) {
+                        schemas.set(eventTopic.toLowerCase(), await this.resolveEventSchema(eventTopic))
+                    }
+                    const resolved = schemas.get(eventTopic.toLowerCase())
+                    if (!resolved) {
+                        continue
+                    }
+
+                    logs.push({
+                        eventId: resolved.eventId,
+                        eventTopic,
+                        args: decodeEventStream(resolved.schema, argumentTopics, log.data),
+                        blockNumber: log.blockNumber as bigint,
+                        blockHash: log.blockHash as Hex,
+                        transactionHash: log.transactionHash as Hex,
+                        transactionIndex: log.transactionIndex as number,
+                        logIndex: log.logIndex as number,
+                    })
+                }
+            })
+            return logs
+        })
+    }
+
+    /**
+     * Push every event emitted through the protocol for a registered event schema from now on, decoded by parameter name
+     * @dev Requires a websocket public client
+     * @example await sdk.streams.subscribeToEvent("ChatMessage", { filters: { room: 1n }, onData: ({ args }) => console.log(args.message) })
+     * @param eventId Event schema identifier to subscribe to
+     * @param options Filters on indexed parameters, contract reads executed for every notification and callbacks
+     * @returns Subscription that can be stopped with unsubscribe, or Error
+     */
+    public async subscribeToEvent(eventId: string, options: EventSubscriptionOptions): Promise<Outcome<StreamSubscription, M>> {
+        return this.execute("subscribeToEvent", { eventId, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address } = await this.getStreamsContract()
+
+            const [schema] = await this.unwrap(this.getEventSchemasById([eventId]))
+            if (!schema || BigInt(schema.eventTopic) === BigInt(0)) {
+                throw new StreamsValidationError(StreamsErrorCode.EventSchemaNotRegistered, `Event ${eventId} is not registered`)
+            }
+            const filter = [schema.eventTopic as Hex, ...encodeTopicFilter(schema, options.filters)]
+            const calls = options.ethCalls ?? []
+
+            if (options.resume) {
+                // Calls are executed at the block of each log, so changes are compared here rather than by the node
+                let previous: string | undefined
+                const resumable = new ResumableSubscription({
+                    client: this.viem.client,
+                    address,
+                    filter,
+                    subscribe: (onData, onError) => this.subscribe({
+                        ethCalls: [],
+                        eventContractSources: [address],
+                        topicOverrides: subscriptionTopics(filter),
+                        onData,
+                        onError,
+                    }),
+                    deliver: async (log, position) => {
+                        try {
+                            const [eventTopic, ...argumentTopics] = log.topics as Hex[]
+                            const ethCalls = await executeSubscriptionCalls(this.viem.client, calls, position.blockNumber)
+                            if (options.onlyPushChanges && calls.length > 0) {
+                                const current = stringify(ethCalls.map((call) => call.status === "success" ? call.result : call.error.message))
+                                if (current === previous) {
+                                    return
+                                }
+                                previous = current
+                            }
+                            options.onData({
+                                eventId,
+                                eventTopic,
+                                args: decodeEventStream(schema, argumentTopics, log.data),
+                                ethCalls,
+                                position,
+                            })
+                        } catch (e) {
+                            options.onError?.(toStreamsError(e, { method: "subscribeToEvent" }))
+                        }
+                    },
+                    onError: options.onError,
+                }, options.resume)
+                return resumable.start()
+            }
+
+            // The node matches the leading exact topics, the rest of the filter is applied to each notification
+            const onData = (notification: SubscriptionCallback) => {
+                const { topics, data, simulationResults } = notification.result
+                if (!matchesTopicFilter(filter, topics)) {
+                    return
+                }
+                try {
+                    const [eventTopic, ...argumentTopics] = topics
+                    options.onData({
+                        eventId,
+                        eventTopic,
+                        args: decodeEventStream(schema, argumentTopics, data),
+                        ethCalls: decodeSubscriptionCalls(calls, simulationResults),
+                    })
+                } catch (e) {
+                    options.onError?.(toStreamsError(e, { method: "subscribeToEvent" }))
+                }
+            }
+
+            const subscription = await this.subscribe({
+                ethCalls: encodeSubscriptionCalls(calls),
+                eventContractSources: [address],
+                topicOverrides: subscriptionTopics(filter),
+                onlyPushChanges: options.onlyPushChanges,
+                onData,
+                onError: (error) => options.onError?.(new StreamsTransportError(error.message, { cause: error })),
+            })
+            if (subscription instanceof Error) {
+                throw new StreamsTransportError(`Failed to subscribe to event ${eventId}: ${subscription.message}`, { cause: subscription })
+            }
+
+            return {
+                subscriptionId: subscription.subscriptionId,
+                unsubscribe: async () => {
+                    await subscription.unsubscribe()
+                },
+            }
+        })
+    }
+
+    /**
+     * Push every record written to a schema from now on, read from chain and decoded as the ESStoreEvent of each write is observed
+     * @dev Requires a websocket public client, records are delivered in the order the writes were observed
+     * @dev Live notifications do not carry the block of the write so records are read at the latest state, and a key written again before its notification is handled delivers the newer record
+     * @dev With resume every record is read at the block of its write, only writes to the same key within one block deliver the record as of the end of that block
+     * @example await sdk.streams.watchData(schemaId, { publisher, schema }, ({ key, record }) => console.log(key, record))
+     * @param schemaId Unique hex reference to the schema (bytes32 value)
+     * @param options Optional publisher and key filters, read options used to decode records and error callback
+     * @param onRecord Called with every record together with its key, index and publisher
+     * @returns Subscription that can be stopped with unsubscribe, or Error
+     */
+    public async watchData<O extends DataWatchOptions = DataWatchOptions>(
+        schemaId: SchemaID,
+        options: O,
+        onRecord: (update: DataUpdate<O>) => void
+    ): Promise<Outcome<StreamSubscription, M>> {
+        return this.execute("watchData", { schemaId, options }, async () => {
+            if (options.publisher) {
+                assertAddressIsValid(options.publisher)
+            }
+
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
+
+            // ESStoreEvent is indexed by schema id, data id and publisher
+            const filter = [
+                ES_STORE_EVENT_TOPIC,
+                schemaId,
+                options.key === undefined ? null : resolveKey(options.key),
+                options.publisher ? pad(options.publisher) : null,
+            ]
+
+            // Reads the record a write stored and delivers it, failures are reported without stopping the subscription
+            // Protocol keys are overwritten in place so the record is read at the block of the write whenever it is known
+            const deliver = async (topics: Hex[], position?: LogPosition) => {
+                const key = topics[2]
+                const publisher = getAddress(slice(topics[3], 12))
+                const read = <T>(functionName: string, args: unknown[]) => this.viem.client.public.readContract({
+                    address,
+                    abi,
+                    functionName,
+                    args,
+                    blockNumber: position?.blockNumber,
+                }) as Promise<T>
+                try {
+                    // Data indexes are stored incremented by one so that zero can mean the key was never written
+                    const indexPlusOne = await read<bigint>("publisherDataIndex", [schemaId, publisher, key])
+                    if (indexPlusOne === BigInt(0)) {
+                        return
+                    }
+
+                    const index = indexPlusOne - BigInt(1)
+                    const rawData = await read<Hex>("getPublisherDataForSchemaAtIndex", [schemaId, publisher, index])
+                    const [record] = await this.unwrap(this.deserialiseRawData([rawData], schemaId, options))
+                    onRecord({ key, index, publisher, record: record as ReadRecord<O>, position })
+                } catch (e) {
+                    options.onError?.(toStreamsError(e, { method: "watchData" }))
+                }
+            }
+
+            if (options.resume) {
+                const resumable = new ResumableSubscription({
+                    client: this.viem.client,
+                    address,
+                    filter,
+                    subscribe: (onData, onError) => this.subscribe({
+                        ethCalls: [],
+                        eventContractSources: [address],
+                        topicOverrides: subscriptionTopics(filter),
+                        onData,
+                        onError,
+                    }),
+                    // The position carries the block of the write so backfilled records are not read at the latest state
+                    deliver: (log, position) => deliver(log.topics as Hex[], position),
+                    onError: options.onError,
+                }, options.resume)
+                return resumable.start()
+            }
+
+            // Records are read one notification at a time so that they are delivered in the order they were written
+            let delivered: Promise<void> = Promise.resolve()
+            const onData = (notification: SubscriptionCallback) => {
+                const { topics } = notification.result
+                if (topics.length < 4 || !matchesTopicFilter(filter, topics)) {
+                    return
+                }
+                delivered = delivered.then(() => deliver(topics))
+            }
+
+            const subscription = await this.subscribe({
+                ethCalls: [],
+                eventContractSources: [address],
+                topicOverrides: subscriptionTopics(filter),
+                onData,
+                onError: (error) => options.onError?.(new StreamsTransportError(error.message, { cause: error })),
+            })
+            if (subscription instanceof Error) {
+                throw new StreamsTransportError(`Failed to watch schema ${schemaId}: ${subscription.message}`, { cause: subscription })
+            }
+
+            return {
+                subscriptionId: subscription.subscriptionId,
+                unsubscribe: async () => {
+                    await subscription.unsubscribe()
+                },
+            }
+        })
+    }
+
+    /**
+     * Discover the publishers writing to a schema from the ESStoreEvent logs of the protocol
+     * @dev Results are kept per instance so repeated calls only scan blocks that were not scanned before, and the recent blocks again if a reorg replaced them
+     * @param schemaId Unique hex reference to the schema (bytes32 value)
+     * @param options Block range, page size and reorg depth of the scan
+     * @returns Every publisher seen over the range scanned so far with its first and last write and write count, or Error
+     */
+    public async getPublishersForSchema(schemaId: SchemaID, options: PublisherScanOptions): Promise<Outcome<PublisherScan, M>> {
+        return this.execute("getPublishersForSchema", { schemaId, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, chainId } = await this.getStreamsContract()
+
+            const toBlock = options.toBlock ?? await this.viem.client.public.getBlockNumber({ cacheTime: 0 })
+            if (toBlock < options.fromBlock) {
+                throw new StreamsValidationError(StreamsErrorCode.InvalidRange, `Invalid block range [${options.fromBlock}, ${toBlock}]`)
+            }
+
+            return this.publisherIndex.scan(
+                `${chainId}:${address}:${schemaId}`.toLowerCase(),
+                options.fromBlock,
+                toBlock,
+                {
+                    read: (fromBlock, toBlock, onPage) => queryLogs(this.viem.client, {
+                        address,
+                        topics: [ES_STORE_EVENT_TOPIC, schemaId],
+                        fromBlock,
+                        toBlock,
+                        pageSize: options.pageSize ?? DEFAULT_LOG_PAGE_SIZE,
+                    }, onPage),
+                    getBlockHash: (blockNumber) => this.viem.client.public.getBlock({ blockNumber }).then(
+                        (block) => block.hash as Hex,
+                        (e) => {
+                            if (e instanceof BlockNotFoundError) {
+                                return null
+                            }
+                            throw e
+                        }
+                    ),
+                },
+                options.reorgDepth
+            )
+        })
     }
 
     /**
@@ -853,21 +1287,17 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @dev this assumes that last published data is at the end of the array of all publisher data points
      * @param schemaId Unique schema identifier
      * @param publisher Address of the wallet or smart contract that wrote to chain
+     * @param options Optional typed schema or plain object decoding of the data
      * @returns Raw data from chain if schema is not public, decoded data if it is or Error if there were errors reading data
      */
-    public async getLastPublishedDataForSchema(
+    public async getLastPublishedDataForSchema<O extends ReadOptions = ReadOptions>(
         schemaId: SchemaID,
-        publisher: Address
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+        publisher: Address,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>> {
+        return this.execute("getLastPublishedDataForSchema", { schemaId, publisher, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Read the last published bytes data from chain
             const rawData = await this.viem.readContract<Hex>(
@@ -877,14 +1307,8 @@ export class Streams extends Reactivity implements StreamsInterface {
                 [schemaId, publisher]
             )
 
-            return this.deserialiseRawData([rawData], schemaId)
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+            return this.unwrap(this.deserialiseRawData([rawData], schemaId, options))
+        })
     }
 
     /**
@@ -892,22 +1316,18 @@ export class Streams extends Reactivity implements StreamsInterface {
      * @param schemaId Unique schema identifier
      * @param publisher Address of the wallet or smart contract that wrote to chain
      * @param n The total number of recent data to return (dictates the return array size)
+     * @param options Optional typed schema or plain object decoding of the data
      * @returns Raw data from chain if schema is not public, decoded data if it is or Error if there were errors reading data
      */
-    public async getLastNPublishedDataForSchema(
+    public async getLastNPublishedDataForSchema<O extends ReadOptions = ReadOptions>(
         schemaId: SchemaID,
         publisher: Address,
-        n: number
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+        n: number,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>> {
+        return this.execute("getLastNPublishedDataForSchema", { schemaId, publisher, n, options }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Read the last published bytes data from chain
             const rawData = await this.viem.readContract<Hex[]>(
@@ -917,87 +1337,78 @@ export class Streams extends Reactivity implements StreamsInterface {
                 [schemaId, publisher, BigInt(n)]
             )
 
-            return this.deserialiseRawData(rawData, schemaId)
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+            return this.unwrap(this.deserialiseRawData(rawData, schemaId, options))
+        })
     }
 
     /**
      * Based on the connected viem public client, will return the address, abi and connected chain id
      * @returns Protocol info if there is one defined for the target chain or an error if that was not possible
      */
-    public async getSomniaDataStreamsProtocolInfo(): Promise<
-        GetSomniaDataStreamsProtocolInfoResponse | Error
-    > {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+    public async getSomniaDataStreamsProtocolInfo(): Promise<Outcome<GetSomniaDataStreamsProtocolInfoResponse, M>> {
+        return this.execute("getSomniaDataStreamsProtocolInfo", {}, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi, chainId } = await this.getStreamsContract()
 
             return {
                 address,
                 abi,
                 chainId
             }
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+        })
     }
 
     /**
      * From raw bytes data encoded with the schema encoder, deserialise the raw data based on a given public schema
      * @param rawData The array of data that will be deserialised based on the specified schema
      * @param schemaId The bytes32 schema identifier used to lookup the schema that is needed for deserialisation
+     * @param options Optional typed schema which skips the on-chain schema lookup, plain object decoding of the looked up schema, or opting out of decompression
      * @returns The raw data if the schema is public, the decoded items for each item of raw data or Error if there was an issue
      */
-    public async deserialiseRawData(
+    public async deserialiseRawData<O extends ReadOptions = ReadOptions>(
         rawData: Hex[],
-        schemaId: SchemaID
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error> {
-        try {
-            // Resolve the chain id
-            const chainId = await this.viem.getChainId()
+        schemaId: SchemaID,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>> {
+        return this.execute("deserialiseRawData", { rawData, schemaId, options }, async () => {
+            // Payloads written with encryption or compression carry a header which identifies them, anything else passes through untouched
+            const data = await Promise.all(rawData.map(async (raw) => {
+                const decrypted = await decryptData(raw, this.keyProvider)
+                if (isEncryptedRecord(decrypted) || options?.decompress === false) {
+                    return decrypted
+                }
+                return decompressData(decrypted)
+            }))
 
-            // Fetch the required contract info based on the connected chain
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+            // A typed schema supplied by the caller already describes the data so there is nothing to look up
+            const typedSchema = options?.schema
+            if (typedSchema) {
+                return data.map((raw) => isEncryptedRecord(raw) ? raw : typedSchema.decode(raw)) as ReadResult<O>
+            }
+
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Try to fetch and compute the full schema definition based on the schema ID
             const schemaLookup = await this.schemaLookup(address, abi, schemaId)
             if (schemaLookup instanceof Error) {
-                console.log(schemaLookup)
+                this.logger.debug(`Returning raw data without decoding: ${schemaLookup.message}`, {
+                    ...this.logContext("deserialiseRawData"),
+                    schemaId
+                })
                 // Return the raw data without decoding direct from chain since we didn't have a public schema
-                return rawData
+                return data as ReadResult<O>
             }
 
             // Provided there is a public schema registered on-chain, we can decode the raw bytes
-            const encoder = new SchemaEncoder(schemaLookup.finalSchema)
-            return rawData.map((raw: Hex) => {
-                return encoder.decodeData(raw)
-            })
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
-            }
-        }
+            const encoder = this.schemaCache.getEncoder(schemaLookup.finalSchema)
+            return data.map((raw) => {
+                if (isEncryptedRecord(raw)) {
+                    return raw
+                }
+                return options?.asObject ? encoder.decodeToObject(raw) : encoder.decodeData(raw)
+            }) as ReadResult<O>
+        })
     }
 
     /**
@@ -1007,20 +1418,10 @@ export class Streams extends Reactivity implements StreamsInterface {
      */
     public async getSchemaFromSchemaId(
         schemaId: SchemaID
-    ): Promise<{
-        baseSchema: string
-        finalSchema: string
-        schemaId: Hex
-    } | Error> {
-        try {
-            // Resolve the connected chain id
-            const chainId = await this.viem.getChainId()
-
-            // Fetch the required contract info
-            const { address, abi } = await getContractAddressAndAbi({
-                internal: KnownContracts.STREAMS,
-                chainId
-            })
+    ): Promise<Outcome<SchemaInfo, M>> {
+        return this.execute("getSchemaFromSchemaId", { schemaId }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
 
             // Do the base schema lookup and check if the schema has extended other schemas
             const schemaLookup = await this.schemaLookup(
@@ -1028,18 +1429,31 @@ export class Streams extends Reactivity implements StreamsInterface {
                 abi,
                 schemaId
             )
-            if (!schemaLookup) {
-                throw new Error(`Unable to do schema lookup on [${schemaId}]`)
+            if (schemaLookup instanceof Error) {
+                throw schemaLookup
             }
 
             return schemaLookup
-        } catch (e) {
-            if (e instanceof Error) {
-                return e
-            } else {
-                return new Error(String(e))
+        })
+    }
+
+    /**
+     * Resolve every schema in the inheritance chain of a schema
+     * @param schemaId The bytes32 unique identifier of the schema to start from
+     * @returns Lineage entries ordered from the supplied schema to its root ancestor or Error
+     */
+    public async getSchemaLineage(schemaId: SchemaID): Promise<Outcome<SchemaLineageEntry[], M>> {
+        return this.execute("getSchemaLineage", { schemaId }, async () => {
+            // Resolve the protocol contract for the connected chain
+            const { address, abi } = await this.getStreamsContract()
+
+            const lineage = await this.resolveSchemaLineage(address, abi, schemaId, undefined, true)
+            if (lineage instanceof Error) {
+                throw lineage
             }
-        }
+
+            return lineage
+        })
     }
 
     /**
@@ -1053,14 +1467,10 @@ export class Streams extends Reactivity implements StreamsInterface {
         streamsProtocol: Address,
         abi: Abi,
         schemaRef: SchemaReference
-    ): Promise<{
-        baseSchema: string
-        finalSchema: string
-        schemaId: Hex
-    } | Error> {
+    ): Promise<SchemaInfo | Error> {
         // Ensure there is some data to process
         if (schemaRef.trim().length === 0) {
-            throw new Error("Invalid empty schema reference")
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "Invalid empty schema reference")
         }
 
         // Lets resolve the schema ID
@@ -1070,10 +1480,7 @@ export class Streams extends Reactivity implements StreamsInterface {
         if (schemaRef.indexOf("0x") === -1) {
             // We dont need to do an onchain schema id -> schema look up as we already have the raw schema definition
             // but we still need to compute the schema Id
-            const computedSchemaResult = await this.computeSchemaId(schemaRef)
-            if (computedSchemaResult instanceof Error) {
-                return computedSchemaResult
-            }
+            const computedSchemaResult = await this.unwrap(this.computeSchemaId(schemaRef))
 
             // We got a valid schema Id so override the initial value
             schemaId = computedSchemaResult
@@ -1085,62 +1492,569 @@ export class Streams extends Reactivity implements StreamsInterface {
         }
 
         if (!schemaId) {
-            return new Error("Schema ID could not be computed for schema")
+            return new StreamsError(StreamsErrorCode.Unknown, "Schema ID could not be computed for schema")
+        }
+
+        // Walk the schema and all of its ancestors so that the final schema reflects the full inheritance chain
+        const lineage = await this.resolveSchemaLineage(
+            streamsProtocol,
+            abi,
+            schemaId,
+            lookupSchemaOnchain ? undefined : schemaRef
+        )
+        if (lineage instanceof Error) {
+            return lineage
+        }
+
+        // Compute the final schema factoring in any parent schemas
+        const baseSchemaLookup = lineage[0].baseSchema
+        const finalSchema = lineage.map((entry) => entry.baseSchema).join(", ")
+
+        if (finalSchema.length === 0) {
+            return new StreamsError(StreamsErrorCode.Unknown, "Unable to compute final schema")
+        }
+
+        // Return the info to be consumed internally and externally
+        return {
+            baseSchema: baseSchemaLookup,
+            finalSchema,
+            schemaId
+        }
+    }
+
+    /**
+     * @dev Internal method that follows parent schema links from a schema up to its root schema
+     * @param streamsProtocol Address of the protocol data schema registry
+     * @param abi Protocol application binary interface for interacting with the smart contract
+     * @param schemaId Identifier of the schema the walk starts from
+     * @param knownBaseSchema Base schema definition for schemaId when the caller already has it, avoiding a lookup
+     * @param includeNames Whether the registered name of each schema in the lineage should also be fetched
+     * @returns Lineage ordered from the supplied schema to the root schema or an Error if the lineage is invalid
+     */
+    private async resolveSchemaLineage(
+        streamsProtocol: Address,
+        abi: Abi,
+        schemaId: SchemaID,
+        knownBaseSchema?: string,
+        includeNames: boolean = false
+    ): Promise<SchemaLineageEntry[] | Error> {
+        const lineage: SchemaLineageEntry[] = []
+        const visited = new Set<string>()
+        const scope = await this.schemaCacheScope(streamsProtocol)
+
+        let currentSchemaId: Hex = schemaId
+        let currentBaseSchema: string | undefined = knownBaseSchema
+        while (currentSchemaId !== zeroBytes32) {
+            // Mirror the contract's InvalidSelfReference protection so a corrupt lineage can never loop forever
+            if (visited.has(currentSchemaId.toLowerCase())) {
+                return new StreamsContractError(
+                    StreamsErrorCode.InvalidSelfReference,
+                    `InvalidSelfReference: schema lineage of [${schemaId}] loops back to [${currentSchemaId}]`
+                )
+            }
+            if (lineage.length >= MAX_SCHEMA_LINEAGE_DEPTH) {
+                return new StreamsError(
+                    StreamsErrorCode.SchemaLineageTooDeep,
+                    `Schema lineage of [${schemaId}] exceeds the maximum depth of ${MAX_SCHEMA_LINEAGE_DEPTH}`
+                )
+            }
+            visited.add(currentSchemaId.toLowerCase())
+
+            // Request info from the chain to see
+            // 1. if the schema is public (the schema definition is known by the data schema lib)
+            // 2. if there is a parent schema associated
+            // Registered schemas are immutable so anything already cached is used as is
+            const [cachedBaseSchema, cachedParentSchemaId] = await Promise.all([
+                this.schemaCache.getBaseSchema(scope, currentSchemaId),
+                this.schemaCache.getParentSchemaId(scope, currentSchemaId),
+            ])
+            const [baseSchema, parentSchemaId, schemaName] = await Promise.all([
+                cachedBaseSchema ?? currentBaseSchema ?? this.viem.readContract<string>(
+                    streamsProtocol,
+                    abi,
+                    "schemaReverseLookup",
+                    [currentSchemaId]
+                ),
+                cachedParentSchemaId ?? this.viem.readContract<Hex>(
+                    streamsProtocol,
+                    abi,
+                    "parentSchemaId",
+                    [currentSchemaId]
+                ),
+                includeNames ? this.readSchemaName(streamsProtocol, abi, currentSchemaId) : Promise.resolve(""),
+            ])
+
+            if (baseSchema.trim().length === 0) {
+                return lineage.length === 0
+                    ? new StreamsContractError(StreamsErrorCode.SchemaNotRegistered, "Schema is not registered on-chain")
+                    : new StreamsContractError(StreamsErrorCode.ParentSchemaNotRegistered, "Invalid parent schema returned from chain: zero data")
+            }
+
+            // Only a schema confirmed as registered is cached. A zero parent link is also what an unregistered schema reads as,
+            // so it is only cached once the base schema read from chain or cache confirms the registration
+            const registered = cachedBaseSchema !== undefined || currentBaseSchema === undefined
+            if (cachedBaseSchema === undefined && currentBaseSchema === undefined) {
+                await this.schemaCache.setBaseSchema(scope, currentSchemaId, baseSchema)
+            }
+            if (cachedParentSchemaId === undefined && (parentSchemaId !== zeroBytes32 || registered)) {
+                await this.schemaCache.setParentSchemaId(scope, currentSchemaId, parentSchemaId)
+            }
+
+            lineage.push({
+                schemaId: currentSchemaId,
+                schemaName,
+                baseSchema,
+                parentSchemaId
+            })
+
+            currentSchemaId = parentSchemaId
+            currentBaseSchema = undefined
+        }
+
+        return lineage
+    }
+
+    /**
+     * @dev Internal method that resolves the protocol contract address and abi once for the connected chain
+     * @returns The protocol contract info along with the chain id it was resolved for
+     */
+    protected async getStreamsContract(): Promise<StreamsContract> {
+        if (!this.streamsContract) {
+            this.streamsContract = (async () => {
+                const chainId = await this.viem.getChainId()
+                const { address, abi } = await getContractAddressAndAbi({
+                    internal: KnownContracts.STREAMS,
+                    chainId,
+                    address: this.contractAddresses[chainId]
+                })
+                this.resolvedStreamsContract = { address, abi, chainId }
+                return this.resolvedStreamsContract
+            })()
+
+            // Failed resolutions are dropped so that the next call can retry
+            this.streamsContract.catch(() => {
+                this.streamsContract = null
+            })
         }
+        return this.streamsContract
+    }
 
-        // Request info from the chain to see 
-        // 1. if the schema is public (the schema definition is known by the data schema lib)
-        // 2. if there is a parent schema associated
-        const [baseSchemaLookup, parentSchemaId] = await Promise.all([
-            lookupSchemaOnchain ? this.viem.readContract<string>(
-                streamsProtocol,
+    /**
+     * @dev Internal method that maps the topic of an emitted event back to its registered event schema
+     * @param eventTopic Topic of the emitted log
+     * @returns Event id and schema, or null when the topic is not registered
+     */
+    private async resolveEventSchema(eventTopic: Hex): Promise<{ eventId: string, schema: EventSchema } | null> {
+        let eventId: string
+        try {
+            eventId = await this.unwrap(this.eventIdFromTopic(eventTopic))
+        } catch (e) {
+            // Topics that were never registered may revert rather than map to an empty id
+            if (!(e instanceof StreamsContractError)) {
+                throw e
+            }
+            eventId = ""
+        }
+        if (!eventId) {
+            this.logger.debug(`Skipping logs with unregistered event topic ${eventTopic}`, this.logContext("getEventLogs"))
+            return null
+        }
+        const [schema] = await this.unwrap(this.getEventSchemasById([eventId]))
+        return schema ? { eventId, schema } : null
+    }
+
+    /**
+     * @dev Internal method that batches the calls of a bulk read, passing through items that already failed validation
+     * @param contract Protocol contract being read
+     * @param calls Call of every item or the error it already failed with
+     * @param batchSize Maximum calls per request
+     * @returns Result of every item in the order supplied
+     */
+    private async bulkCall<T>(
+        contract: ContractAddressAndAbi,
+        calls: (ContractCall | StreamsError)[],
+        batchSize: number = DEFAULT_MULTICALL_BATCH_SIZE
+    ): Promise<BulkResult<T>[]> {
+        const pending = calls.filter((call): call is ContractCall => !(call instanceof StreamsError))
+        const results = await multicall<T>(this.viem.client, contract, pending, batchSize)
+
+        let next = 0
+        return calls.map((call) => call instanceof StreamsError ? { status: "failure", error: call } : results[next++])
+    }
+
+    /**
+     * @dev Internal method that reads and decodes data at known indexes for a bulk read
+     * @param contract Protocol contract being read
+     * @param schemaId Schema the data was written against
+     * @param reads Publisher and index of every item, undefined when the item has no data or the error it already failed with
+     * @param options Calls per request and decoding of the data
+     * @returns Decoded data of every item in the order supplied
+     */
+    private async readAtIndexes<O extends BulkReadOptions>(
+        contract: ContractAddressAndAbi,
+        schemaId: SchemaID,
+        reads: ({ publisher: Address, index: bigint } | StreamsError | undefined)[],
+        options?: O
+    ): Promise<BulkResult<ReadRecord<O> | undefined>[]> {
+        const fetched = await this.bulkCall<Hex>(contract, reads
+            .filter((read): read is { publisher: Address, index: bigint } | StreamsError => read !== undefined)
+            .map((read) => read instanceof StreamsError ? read : {
+                functionName: "getPublisherDataForSchemaAtIndex",
+                args: [schemaId, read.publisher, read.index],
+            }), options?.batchSize)
+
+        // Every payload is decoded together so the schema is only resolved once
+        const rawData = fetched.flatMap((item) => item.status === "success" ? [item.result] : [])
+        const decoded = rawData.length > 0
+            ? await this.unwrap(this.deserialiseRawData<O>(rawData, schemaId, options)) as unknown as ReadRecord<O>[]
+            : []
+
+        let nextFetched = 0
+        let nextDecoded = 0
+        return reads.map((read): BulkResult<ReadRecord<O> | undefined> => {
+            if (read === undefined) {
+                return { status: "success", result: undefined }
+            }
+            const item = fetched[nextFetched++]
+            return item.status === "success" ? { status: "success", result: decoded[nextDecoded++] } : item
+        })
+    }
+
+    /**
+     * @dev Internal method that scopes cache entries to a deployment so one cache storage can serve many chains
+     * @param streamsProtocol Address of the protocol data schema registry
+     * @returns Scope prefix for the schema cache
+     */
+    private async schemaCacheScope(streamsProtocol: Address): Promise<string> {
+        const chainId = await this.viem.getChainId()
+        return `${chainId}:${streamsProtocol.toLowerCase()}`
+    }
+
+    /**
+     * @dev Internal method that reads the name of a schema via the schema cache
+     * @param streamsProtocol Address of the protocol data schema registry
+     * @param abi Protocol application binary interface for interacting with the smart contract
+     * @param schemaId Identifier of the schema
+     * @returns The registered name or an empty string if the schema has no name
+     */
+    private async readSchemaName(streamsProtocol: Address, abi: Abi, schemaId: SchemaID): Promise<string> {
+        const scope = await this.schemaCacheScope(streamsProtocol)
+        const cachedSchemaName = await this.schemaCache.getSchemaName(scope, schemaId)
+        if (cachedSchemaName !== undefined) {
+            return cachedSchemaName
+        }
+
+        const schemaName = await this.viem.readContract<string>(
+            streamsProtocol,
+            abi,
+            "schemaIdToName",
+            [schemaId]
+        )
+        if (schemaName.length > 0) {
+            await this.schemaCache.setSchemaName(scope, schemaId, schemaName)
+        }
+        return schemaName
+    }
+
+    /**
+     * @dev Internal method that sends a protocol transaction, optionally simulating it first or only simulating it
+     * @param streamsProtocol Address of the protocol contract
+     * @param abi Protocol application binary interface for interacting with the smart contract
+     * @param functionName Contract function being called
+     * @param args Contract function arguments
+     * @param options Simulation and dry run options
+     * @returns Transaction handle, or the simulation when dry running
+     */
+    private async sendTransaction<O extends WriteOptions>(
+        streamsProtocol: Address,
+        abi: Abi,
+        functionName: string,
+        args: unknown[],
+        options?: O
+    ): Promise<WriteOutcome<O>> {
+        let simulation: SimulationResult | undefined
+        if (options?.simulate || options?.dryRun) {
+            simulation = await this.simulateTransaction(streamsProtocol, abi, functionName, args, options.account)
+            if (options.dryRun) {
+                return simulation as WriteOutcome<O>
+            }
+            if (!simulation.success) {
+                throw simulation.error
+            }
+        }
+
+        const txHash = await this.viem.writeContract(
+            streamsProtocol,
+            abi,
+            functionName,
+            args
+        )
+
+        if (txHash === null) {
+            throw new StreamsWalletError("Failed to send transaction - check wallet client")
+        }
+
+        return this.transactionHandle(txHash, streamsProtocol, abi, simulation) as WriteOutcome<O>
+    }
+
+    /**
+     * @dev Internal method that simulates a protocol transaction against the latest state without broadcasting it
+     * @param streamsProtocol Address of the protocol contract
+     * @param abi Protocol application binary interface for interacting with the smart contract
+     * @param functionName Contract function being called
+     * @param args Contract function arguments
+     * @param account Account to simulate as, defaults to the connected wallet account
+     * @returns The would-be return value and gas estimate, or the decoded revert reason
+     */
+    private async simulateTransaction(
+        streamsProtocol: Address,
+        abi: Abi,
+        functionName: string,
+        args: unknown[],
+        account?: Address
+    ): Promise<SimulationResult> {
+        const sender = await this.resolveSender(account)
+        try {
+            const { result } = await this.viem.client.public.simulateContract({
+                address: streamsProtocol,
                 abi,
-                "schemaReverseLookup",
-                [schemaId]
-            ) : Promise.resolve(schemaRef),
-            this.viem.readContract<Hex>(
-                streamsProtocol,
+                functionName,
+                args,
+                account: sender,
+            })
+            const gas = await this.viem.client.public.estimateContractGas({
+                address: streamsProtocol,
                 abi,
-                "parentSchemaId",
-                [schemaId]
-            ),
-        ])
+                functionName,
+                args,
+                account: sender,
+            })
+            return { success: true, result, gas }
+        } catch (e) {
+            // The SDK method and its arguments are recorded by execute when the error is thrown
+            return { success: false, error: toStreamsError(e, { functionName }) }
+        }
+    }
 
-        if (lookupSchemaOnchain && baseSchemaLookup.trim().length === 0) {
-            return new Error("Schema is not registered on-chain")
+    /**
+     * @dev Internal method that compresses and then encrypts data stream payloads as requested by the write options
+     * @param dataStreams Data streams about to be written
+     * @param options Compression and encryption options
+     * @returns Data streams with their payloads transformed
+     */
+    private async preparePayload(dataStreams: DataStream[], options?: BatchWriteOptions): Promise<DataStream[]> {
+        let payload = options?.compress ? await compressDataStreams(dataStreams) : dataStreams
+        if (options?.encrypt) {
+            payload = await encryptDataStreams(payload, options.encrypt)
+        }
+        return payload
+    }
+
+    /**
+     * @dev Internal method that resolves the account transactions are simulated and estimated as
+     * @dev The sender matters to the protocol (emitter permissions, publisher scoped data) so always simulate as one
+     * @param account Explicit account, defaults to the connected wallet account
+     * @returns The sender or undefined when no wallet is connected
+     */
+    private async resolveSender(account?: Address): Promise<Account | Address | undefined> {
+        if (account) {
+            return account
         }
+        if (!this.viem.client.wallet) {
+            return undefined
+        }
+        return this.viem.client.wallet.account ?? (await this.viem.getCurrentAccounts())[0]
+    }
 
-        // Lookup parent schema if the base schema has extended another
-        let parentSchema: string | null = null
-        if (parentSchemaId !== zeroBytes32) {
-            // TODO - this is only handling depth of 1 we need to handle more
-            parentSchema = await this.viem.readContract<string>(
-                streamsProtocol,
+    /**
+     * @dev Internal method that writes data and event streams across several gas and size bounded transactions
+     * @param streamsProtocol Address of the protocol contract
+     * @param abi Protocol application binary interface for interacting with the smart contract
+     * @param dataStreams Data streams to write
+     * @param eventStreams Event streams to emit after the data streams
+     * @param batch Chunk limits, concurrency and progress reporting
+     * @param options Simulation options applied to every chunk
+     * @returns Outcome of every chunk with the ability to resume from the first failed chunk
+     */
+    private async sendInChunks(
+        streamsProtocol: Address,
+        abi: Abi,
+        dataStreams: DataStream[],
+        eventStreams: EventStream[],
+        batch: BatchOptions,
+        options: WriteOptions
+    ): Promise<BatchWriteResult> {
+        const sender = await this.resolveSender(options.account)
+        const maxGas = batch.maxGas ?? (await this.viem.client.public.getBlock()).gasLimit / BigInt(2)
+        const chunks = await planChunks(
+            dataStreams,
+            eventStreams,
+            { maxItems: batch.maxItems ?? DEFAULT_BATCH_MAX_ITEMS, maxGas },
+            (chunk) => this.viem.client.public.estimateContractGas({
+                address: streamsProtocol,
                 abi,
-                "schemaReverseLookup",
-                [parentSchemaId]
+                ...this.chunkCall(chunk),
+                account: sender,
+            })
+        )
+        this.logger.debug(`Split ${dataStreams.length + eventStreams.length} streams into ${chunks.length} chunks`, {
+            ...this.logContext("sendInChunks"),
+            maxGas: maxGas.toString(),
+        })
+
+        const run = async (pending: BatchChunk[], previous: BatchChunkResult[]): Promise<BatchWriteResult> => {
+            const results = await runChunks(
+                pending,
+                (chunk) => {
+                    const { functionName, args } = this.chunkCall(chunk)
+                    return this.sendTransaction(streamsProtocol, abi, functionName, args, {
+                        simulate: options.simulate,
+                        account: options.account,
+                    })
+                },
+                { concurrency: batch.concurrency ?? 1, wait: batch.wait, onProgress: batch.onProgress }
             )
-        }
 
-        // Compute the final schema factoring in any parent schemas
-        let finalSchema = baseSchemaLookup
-        if (parentSchema) {
-            if (parentSchema.trim().length === 0) {
-                return new Error("Invalid parent schema returned from chain: zero data")
+            const merged = previous.map((chunk) => results.find((result) => result.index === chunk.index) ?? chunk)
+            return {
+                success: merged.every((chunk) => chunk.status === "success"),
+                chunks: merged,
+                resume: () => run(
+                    merged
+                        .filter((chunk) => chunk.status !== "success")
+                        .map(({ index, dataStreams, eventStreams, gas }) => ({ index, dataStreams, eventStreams, gas })),
+                    merged
+                ),
             }
-            finalSchema = `${finalSchema}, ${parentSchema}`
         }
 
-        if (finalSchema.length === 0) {
-            return new Error("Unable to compute final schema")
+        return run(chunks, chunks.map((chunk) => ({ ...chunk, status: "skipped" })))
+    }
+
+    /**
+     * @dev Internal method that picks the protocol function for a chunk since the contract rejects empty stream arrays
+     * @param chunk Data and event streams sent together
+     * @returns Contract function name and arguments
+     */
+    private chunkCall(chunk: Pick<BatchChunk, "dataStreams" | "eventStreams">): { functionName: string, args: unknown[] } {
+        if (chunk.eventStreams.length === 0) {
+            return { functionName: "esstores", args: [chunk.dataStreams] }
+        }
+        if (chunk.dataStreams.length === 0) {
+            return { functionName: "emitEvents", args: [chunk.eventStreams] }
         }
+        return { functionName: "publishDataAndEmitEvents", args: [chunk.dataStreams, chunk.eventStreams] }
+    }
 
-        // Return the info to be consumed internally and externally
+    /**
+     * @dev Internal method that wraps a sent transaction hash so that callers can wait for its decoded result
+     * @param hash Hash of the sent transaction
+     * @param streamsProtocol Address of the protocol whose logs should be decoded
+     * @param abi Protocol application binary interface for decoding the logs
+     * @param simulation Pre-flight simulation performed before sending, if any
+     * @returns Handle exposing the hash and a wait function
+     */
+    private transactionHandle(
+        hash: Hex,
+        streamsProtocol: Address,
+        abi: Abi,
+        simulation?: SimulationResult
+    ): TransactionHandle {
         return {
-            baseSchema: baseSchemaLookup,
-            finalSchema,
-            schemaId
+            hash,
+            simulation,
+            wait: async (options: WaitOptions = {}) => {
+                const receipt = await this.viem.client.public.waitForTransactionReceipt({
+                    hash,
+                    confirmations: options.confirmations,
+                    timeout: options.timeout,
+                })
+                return decodeStreamsReceipt(receipt, abi, streamsProtocol)
+            }
+        }
+    }
+
+    /**
+     * @dev Internal method that runs an SDK method body and reports its outcome according to the configured error mode
+     * @param method Name of the SDK method being executed
+     * @param args Named arguments the SDK method was called with
+     * @param fn Method body which throws on failure
+     * @returns The value, a Result union or an Error depending on the error mode (rejects in throw mode)
+     */
+    protected async execute<T>(
+        method: string,
+        args: Record<string, unknown>,
+        fn: () => Promise<T>
+    ): Promise<Outcome<T, M>> {
+        try {
+            const value = await fn()
+            return (this.errorMode === "result" ? { ok: true, value } : value) as Outcome<T, M>
+        } catch (e) {
+            const error = toStreamsError(e, { method, args: Object.values(args) })
+
+            // Errors are logged once by the SDK method they originated in rather than by every caller up the stack
+            if (error.method === method) {
+                const context: LogContext = {
+                    ...this.logContext(method, args),
+                    code: error.code
+                }
+                if (error instanceof StreamsContractError) {
+                    this.logger.warn(`Contract error: ${error.message}`, context)
+                } else {
+                    this.logger.debug(`${method} failed: ${error.message}`, context)
+                }
+            }
+
+            switch (this.errorMode) {
+                case "throw":
+                    throw error
+                case "result":
+                    return { ok: false, error } as Outcome<T, M>
+                default:
+                    return error as Outcome<T, M>
+            }
+        }
+    }
+
+    /**
+     * @dev Internal method that turns the outcome of another SDK method back into a plain value, throwing on failure
+     * @param outcome Pending outcome of an SDK method called internally
+     * @returns The successful value
+     */
+    protected async unwrap<T>(outcome: Promise<Outcome<T, M>>): Promise<T> {
+        const resolved = await outcome
+        if (this.errorMode === "result") {
+            const result = resolved as Result<T>
+            if (!result.ok) {
+                throw result.error
+            }
+            return result.value
+        }
+        if (resolved instanceof Error) {
+            throw resolved
+        }
+        return resolved as T
+    }
+
+    /**
+     * @dev Internal method that builds the structured log context for an SDK call
+     * @param method Name of the SDK method
+     * @param args Named arguments of the SDK method which may include a schema id and publisher
+     * @returns Log context including the connected deployment when it is known
+     */
+    protected logContext(method: string, args: Record<string, unknown> = {}): LogContext {
+        const context: LogContext = { method }
+        if (this.resolvedStreamsContract) {
+            context.chainId = this.resolvedStreamsContract.chainId
+            context.contractAddress = this.resolvedStreamsContract.address
+        }
+        if (typeof args.schemaId === "string") {
+            context.schemaId = args.schemaId
+        }
+        if (typeof args.publisher === "string") {
+            context.publisher = args.publisher
         }
+        return context
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Hex } from "viem"
+import { StreamsValidationError } from "@/services/errors"
+import { assertNoKeyCollisions, defineKey, findKeyCollisions, StructuredKey } from "."
+
+const driver = "0x52908400098527886E0F7030069857D2E4169EE7"
+
+describe("defineKey", () => {
+    it("packs values that fit and decodes them back", () => {
+        const tripKey = defineKey("fleet-app", { vehicle: "uint32", driver: "address", label: "string" })
+        const id = tripKey.encode({ vehicle: 44, driver, label: "n" })
+        expect(tripKey.owns(id)).toBe(true)
+        expect(tripKey.decode(id)).toEqual({ vehicle: BigInt(44), driver, label: "n" })
+    })
+
+    it("hashes values that do not fit", () => {
+        const docKey = defineKey("docs", { path: "string" })
+        const id = docKey.encode({ path: "a".repeat(40) })
+        expect(docKey.owns(id)).toBe(true)
+        expect(docKey.decode(id)).toBeUndefined()
+    })
+
+    it("rejects unsupported part types", () => {
+        expect(() => defineKey("app", { flag: "bool" } as never)).toThrow(StreamsValidationError)
+        expect(() => defineKey("app", { n: "uint7" })).toThrow(StreamsValidationError)
+    })
+})
+
+describe("findKeyCollisions", () => {
+    const tripKey = defineKey("fleet-app", { vehicle: "uint32", driver: "address" })
+
+    it("does not report the same key built from equivalent values", () => {
+        const keys: StructuredKey[] = [
+            tripKey.key({ vehicle: 1, driver }),
+            tripKey.key({ driver, vehicle: 1 }),
+            tripKey.key({ vehicle: BigInt(1), driver: driver.toLowerCase() as Hex }),
+        ]
+        expect(new Set(keys.map((key) => key.id)).size).toBe(1)
+        expect(findKeyCollisions(keys)).toEqual([])
+        expect(() => assertNoKeyCollisions(keys)).not.toThrow()
+    })
+
+    it("reports different values that resolve to the same id", () => {
+        const key = tripKey.key({ vehicle: 1, driver })
+        const forged: StructuredKey = { ...tripKey.key({ vehicle: 2, driver }), id: key.id }
+        expect(findKeyCollisions([key, forged])).toEqual([[key, forged]])
+        expect(() => assertNoKeyCollisions([key, forged])).toThrow(StreamsValidationError)
+    })
+})
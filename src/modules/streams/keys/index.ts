@@ -0,0 +1,333 @@
+import {
+    Address,
+    Hex,
+    bytesToHex,
+    bytesToString,
+    concatHex,
+    encodeAbiParameters,
+    getAddress,
+    hexToBigInt,
+    hexToBytes,
+    isAddress,
+    isHex,
+    keccak256,
+    numberToHex,
+    pad,
+    size,
+    slice,
+    stringToBytes,
+    toHex,
+} from "viem"
+import { StreamsErrorCode, StreamsValidationError } from "@/services/errors"
+
+/**
+ * Solidity type of a key part, uint being an alias of uint256
+ */
+export type KeyPartType = "address" | "string" | "bytes32" | "bytes" | "uint" | `uint${number}`
+
+/**
+ * Ordered key parts by name
+ * @example { vehicle: "uint32", driver: "address" }
+ */
+export type KeyLayout = Record<string, KeyPartType>
+
+type KeyPartValue<T extends KeyPartType> = T extends "address"
+    ? Address
+    : T extends "string"
+        ? string
+        : T extends "bytes32" | "bytes"
+            ? Hex
+            : bigint
+
+/**
+ * Values of every key part as decoded from a key
+ */
+export type KeyValues<P extends KeyLayout> = {
+    [K in keyof P]: KeyPartValue<P[K]>
+}
+
+/**
+ * Values of every key part as supplied when building a key, uint parts accepting numbers too
+ */
+export type KeyInput<P extends KeyLayout> = {
+    [K in keyof P]: P[K] extends "address" | "string" | "bytes32" | "bytes" ? KeyPartValue<P[K]> : bigint | number
+}
+
+/**
+ * A data stream key together with the namespace, layout and values it was built from
+ * @param id bytes32 key written as the data stream id
+ */
+export type StructuredKey<P extends KeyLayout = KeyLayout> = {
+    readonly namespace: string
+    readonly layout: P
+    readonly values: KeyInput<P>
+    readonly id: Hex
+}
+
+/**
+ * Builds and parses the data stream keys of one namespace
+ * @property namespace App or schema the keys belong to
+ * @property layout Ordered key parts
+ * @property tag 4 byte identifier of the namespace and layout embedded in every key
+ * @property encode Build the bytes32 key for a set of values
+ * @property key Build a structured key that read methods accept in place of the raw key
+ * @property decode Recover the values of a key in reversible form, undefined for hashed keys or keys of another namespace
+ * @property owns Whether a key was built by this builder
+ */
+export type KeyBuilder<P extends KeyLayout> = {
+    readonly namespace: string
+    readonly layout: P
+    readonly tag: Hex
+    encode(values: KeyInput<P>): Hex
+    key(values: KeyInput<P>): StructuredKey<P>
+    decode(id: Hex): KeyValues<P> | undefined
+    owns(id: Hex): boolean
+}
+
+/**
+ * Options for a key builder
+ * @param reversible Pack the values into the key when they fit in 32 bytes so that they can be decoded (defaults to true)
+ */
+export type KeyOptions = {
+    reversible?: boolean
+}
+
+// Leading byte of a key distinguishing packed (reversible) keys from hashed keys
+const PACKED_KEY = 1
+const HASHED_KEY = 2
+
+const KEY_SIZE = 32
+const TAG_SIZE = 4
+const HEADER_SIZE = 1 + TAG_SIZE
+const MAX_PACKED_LENGTH = 255
+
+const FIXED_PART_TYPES: string[] = ["address", "string", "bytes32", "bytes"]
+
+function uintBits(type: KeyPartType): number | undefined {
+    if (type === "uint") {
+        return 256
+    }
+    if (!type.startsWith("uint")) {
+        return undefined
+    }
+    const bits = Number(type.slice(4))
+    if (!Number.isInteger(bits) || bits < 8 || bits > 256 || bits % 8 !== 0) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Unsupported key part type ${type}`)
+    }
+    return bits
+}
+
+// Layouts are often built at runtime so types outside KeyPartType have to be rejected rather than packed as strings
+function assertPartType(name: string, type: string): void {
+    if (FIXED_PART_TYPES.includes(type) || uintBits(type as KeyPartType) !== undefined) {
+        return
+    }
+    throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Unsupported key part type ${type} for ${name}`)
+}
+
+function abiType(type: KeyPartType): string {
+    return type === "uint" ? "uint256" : type
+}
+
+function normalisePart(name: string, type: KeyPartType, value: unknown): bigint | Address | string | Hex {
+    const bits = uintBits(type)
+    if (bits !== undefined) {
+        if (typeof value !== "bigint" && typeof value !== "number") {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Key part ${name} must be a number or bigint`)
+        }
+        const uint = BigInt(value)
+        if (uint < BigInt(0) || uint >= BigInt(1) << BigInt(bits)) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Key part ${name} does not fit in ${type}`)
+        }
+        return uint
+    }
+    if (type === "address") {
+        if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidAddress, `Key part ${name} must be an address`)
+        }
+        return getAddress(value)
+    }
+    if (type === "bytes32") {
+        if (typeof value !== "string" || !isHex(value) || size(value) !== 32) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Key part ${name} must be 32 hex bytes`)
+        }
+        return value.toLowerCase() as Hex
+    }
+    if (type === "bytes") {
+        if (typeof value !== "string" || !isHex(value)) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Key part ${name} must be hex bytes`)
+        }
+        return value.toLowerCase() as Hex
+    }
+    if (typeof value !== "string") {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Key part ${name} must be a string`)
+    }
+    return value
+}
+
+function normaliseParts(parts: [string, KeyPartType][], values: Record<string, unknown>): (bigint | string)[] {
+    return parts.map(([name, type]) => normalisePart(name, type, values[name]))
+}
+
+function packPart(type: KeyPartType, value: bigint | string): Hex | undefined {
+    const bits = uintBits(type)
+    if (bits !== undefined) {
+        return numberToHex(value as bigint, { size: bits / 8 })
+    }
+    if (type === "address" || type === "bytes32") {
+        return (value as Hex).toLowerCase() as Hex
+    }
+    // Dynamic parts are prefixed with a single length byte
+    const bytes = type === "bytes" ? value as Hex : toHex(stringToBytes(value as string))
+    const length = size(bytes)
+    return length > MAX_PACKED_LENGTH ? undefined : concatHex([numberToHex(length, { size: 1 }), bytes])
+}
+
+/**
+ * Define the keys of a namespace from an ordered set of typed parts
+ * @dev Keys are deterministic bytes32 values that start with a format byte and a tag derived from the namespace and layout
+ * @dev Values that fit are packed into the key so that it can be decoded, otherwise the key is a truncated keccak256 hash
+ * @example const tripKey = defineKey("fleet-app", { vehicle: "uint32", trip: "uint32" })
+ * @param namespace App or schema the keys belong to
+ * @param layout Ordered key parts by name
+ * @param options Whether values are packed into the key when they fit
+ * @returns Key builder for the namespace
+ */
+export function defineKey<const P extends KeyLayout>(namespace: string, layout: P, options: KeyOptions = {}): KeyBuilder<P> {
+    const parts = Object.entries(layout) as [string, KeyPartType][]
+    if (parts.length === 0) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "Keys need at least one part")
+    }
+    parts.forEach(([name, type]) => assertPartType(name, type))
+
+    const tag = slice(keccak256(toHex(`${namespace}(${parts.map(([, type]) => abiType(type)).join(",")})`)), 0, TAG_SIZE)
+    const reversible = options.reversible ?? true
+
+    const encode = (values: KeyInput<P>): Hex => {
+        const normalised = normaliseParts(parts, values as Record<string, unknown>)
+
+        if (reversible) {
+            const packed = parts.map(([, type], i) => packPart(type, normalised[i] as bigint | string))
+            if (packed.every((part) => part !== undefined)) {
+                const body = concatHex(packed as Hex[])
+                if (HEADER_SIZE + size(body) <= KEY_SIZE) {
+                    return pad(concatHex([numberToHex(PACKED_KEY, { size: 1 }), tag, body]), { dir: "right", size: KEY_SIZE })
+                }
+            }
+        }
+
+        const hash = keccak256(encodeAbiParameters(
+            [{ type: "bytes4" }, ...parts.map(([name, type]) => ({ name, type: abiType(type) }))],
+            [tag, ...normalised]
+        ))
+        return concatHex([numberToHex(HASHED_KEY, { size: 1 }), tag, slice(hash, 0, KEY_SIZE - HEADER_SIZE)])
+    }
+
+    const decode = (id: Hex): KeyValues<P> | undefined => {
+        if (!isHex(id) || size(id) !== KEY_SIZE) {
+            return undefined
+        }
+        const bytes = hexToBytes(id)
+        if (bytes[0] !== PACKED_KEY || slice(id, 1, HEADER_SIZE).toLowerCase() !== tag.toLowerCase()) {
+            return undefined
+        }
+
+        const values: Record<string, unknown> = {}
+        let offset = HEADER_SIZE
+        for (const [name, type] of parts) {
+            const bits = uintBits(type)
+            let length: number
+            if (bits !== undefined) {
+                length = bits / 8
+            } else if (type === "address") {
+                length = 20
+            } else if (type === "bytes32") {
+                length = 32
+            } else {
+                length = bytes[offset]
+                offset += 1
+            }
+            if (offset + length > KEY_SIZE) {
+                return undefined
+            }
+
+            const part = bytes.slice(offset, offset + length)
+            offset += length
+            if (bits !== undefined) {
+                values[name] = length === 0 ? BigInt(0) : hexToBigInt(bytesToHex(part))
+            } else if (type === "address") {
+                values[name] = getAddress(bytesToHex(part))
+            } else if (type === "bytes32" || type === "bytes") {
+                values[name] = bytesToHex(part)
+            } else {
+                values[name] = bytesToString(part)
+            }
+        }
+
+        // Anything after the packed parts is padding, non zero bytes mean the key was not built with this layout
+        if (bytes.slice(offset).some((byte) => byte !== 0)) {
+            return undefined
+        }
+        return values as KeyValues<P>
+    }
+
+    return {
+        namespace,
+        layout,
+        tag,
+        encode,
+        key(values: KeyInput<P>): StructuredKey<P> {
+            return { namespace, layout, values, id: encode(values) }
+        },
+        decode,
+        owns(id: Hex): boolean {
+            return isHex(id) && size(id) === KEY_SIZE && slice(id, 1, HEADER_SIZE).toLowerCase() === tag.toLowerCase()
+        },
+    }
+}
+
+/**
+ * Resolve the raw bytes32 data stream id of a key
+ * @param key Raw key or structured key
+ * @returns The raw key
+ */
+export function resolveKey(key: Hex | StructuredKey): Hex {
+    return typeof key === "string" ? key : key.id
+}
+
+// Values are normalised in layout order as they are for encoding, so property order, numbers and bigints or address casing make no difference
+function describeKey(key: StructuredKey): string {
+    const parts = Object.entries(key.layout) as [string, KeyPartType][]
+    const values = normaliseParts(parts, key.values as Record<string, unknown>)
+    return `${key.namespace}(${parts.map(([name, type], i) => `${name}: ${type} = ${JSON.stringify(values[i].toString())}`).join(", ")})`
+}
+
+/**
+ * Find structured keys that resolve to the same id despite being built from different namespaces or values
+ * @param keys Keys to compare
+ * @returns Groups of colliding keys
+ */
+export function findKeyCollisions(keys: StructuredKey[]): StructuredKey[][] {
+    const byId = new Map<string, Map<string, StructuredKey>>()
+    for (const key of keys) {
+        const id = key.id.toLowerCase()
+        const distinct = byId.get(id) ?? new Map<string, StructuredKey>()
+        distinct.set(describeKey(key), key)
+        byId.set(id, distinct)
+    }
+    return Array.from(byId.values())
+        .filter((distinct) => distinct.size > 1)
+        .map((distinct) => Array.from(distinct.values()))
+}
+
+/**
+ * Throw if any structured keys collide, intended for test suites that enumerate the keys an app writes
+ * @param keys Keys to compare
+ */
+export function assertNoKeyCollisions(keys: StructuredKey[]): void {
+    const collisions = findKeyCollisions(keys)
+    if (collisions.length > 0) {
+        const described = collisions.map((group) => `${group[0].id}: ${group.map(describeKey).join(", ")}`)
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Key collisions found - ${described.join("; ")}`)
+    }
+}
\ No newline at end of file
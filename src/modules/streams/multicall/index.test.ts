@@ -0,0 +1,76 @@
+import { Address, createPublicClient, decodeFunctionData, Hex, HttpRequestError, custom, multicall3Abi, toHex } from "viem"
+import { StreamsEmulator } from "@/modules/emulator"
+import { StreamsABI } from "@/services/smart-contracts/abi/Streams"
+import { StreamsTransportError } from "@/services/errors"
+import { ContractCall, multicall, MULTICALL3_ADDRESS } from "."
+
+const schemaId = toHex(1, { size: 32 })
+const calls: ContractCall[] = [1, 2, 3, 4, 5].map((n) => ({
+    functionName: "totalPublisherDataForSchema",
+    args: [schemaId, toHex(n, { size: 20 })],
+}))
+
+function rpcError(code: number, message: string) {
+    return Object.assign(new Error(message), { code })
+}
+
+// Fails every aggregate3 request according to the number of calls it carries, recording the size of each request
+async function setup(fail: (size: number) => Error | undefined) {
+    const emulator = new StreamsEmulator()
+    const batches: number[] = []
+    let singleReads = 0
+    const transport = custom({
+        request: async ({ method, params }) => {
+            const [call] = params as [{ to: Address, data: Hex }]
+            if (method === "eth_call" && call.to.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase()) {
+                const { args } = decodeFunctionData({ abi: multicall3Abi, data: call.data })
+                const size = (args![0] as unknown[]).length
+                batches.push(size)
+                const error = fail(size)
+                if (error) {
+                    throw error
+                }
+            } else if (method === "eth_call") {
+                singleReads++
+            }
+            return emulator.request(method, params)
+        },
+    }, { retryCount: 0 })
+    const client = { public: createPublicClient({ chain: emulator.chain, transport }) }
+    const contract = { address: emulator.address, abi: await StreamsABI() }
+    return { client, contract, batches, singleReads: () => singleReads }
+}
+
+describe("multicall", () => {
+    it("reads every call in batches of the requested size", async () => {
+        const { client, contract, batches } = await setup(() => undefined)
+        const results = await multicall<bigint>(client, contract, calls, 2)
+        expect(results).toEqual(calls.map(() => ({ status: "success", result: BigInt(0) })))
+        expect(batches).toEqual([2, 2, 1])
+    })
+
+    it("halves batches the node rejects as too large and keeps the smaller size", async () => {
+        const { client, contract, batches } = await setup((size) => size > 2
+            ? rpcError(-32000, "gas required exceeds allowance (30000000)")
+            : undefined)
+        const results = await multicall<bigint>(client, contract, calls, 8)
+        expect(results.every((result) => result.status === "success")).toBe(true)
+        expect(batches).toEqual([5, 3, 2, 2, 1])
+    })
+
+    it("falls back to single reads on other errors", async () => {
+        for (const message of ["rate limit exceeded", "execution reverted: exceeds allowance", "insufficient gas"]) {
+            const { client, contract, batches, singleReads } = await setup(() => rpcError(-32000, message))
+            const results = await multicall<bigint>(client, contract, calls, 8)
+            expect(results).toEqual(calls.map(() => ({ status: "success", result: BigInt(0) })))
+            expect(batches).toEqual([5])
+            expect(singleReads()).toBe(calls.length)
+        }
+    })
+
+    it("throws transport failures", async () => {
+        const { client, contract, batches } = await setup(() => new HttpRequestError({ url: "http://localhost:8545", details: "socket hang up" }))
+        await expect(multicall(client, contract, calls, 8)).rejects.toBeInstanceOf(StreamsTransportError)
+        expect(batches).toEqual([5])
+    })
+})
@@ -0,0 +1,137 @@
+import {
+    Address,
+    BaseError,
+    ContractFunctionRevertedError,
+    Hex,
+    HttpRequestError,
+    decodeFunctionResult,
+    encodeFunctionData,
+    multicall3Abi,
+} from "viem"
+import { Client } from "@/types"
+import { ContractAddressAndAbi } from "@/services/smart-contracts"
+import { StreamsErrorCode, StreamsTransportError, StreamsValidationError, toStreamsError } from "@/services/errors"
+import { BulkResult } from "@/types/streams"
+
+// Multicall3 is deployed at the same address on every chain that has it
+export const MULTICALL3_ADDRESS: Address = "0xcA11bde05977b3631167028862bE2a173976CA11"
+
+// Errors nodes return when a request or its response is too large, or the calls exceed the gas cap of eth_call
+const SIZE_LIMIT_ERRORS = [
+    /gas required exceeds allowance/i,
+    /exceeds (?:block gas limit|the configured cap|gas cap)/i,
+    /out of gas/i,
+    /(?:request|response|payload|body|batch) (?:entity |size )?(?:is )?too large/i,
+    /response size (?:exceeded|limit)/i,
+]
+
+function isSizeLimitError(e: unknown): boolean {
+    if (e instanceof BaseError && e.walk((err) => err instanceof HttpRequestError && err.status === 413)) {
+        return true
+    }
+    const message = e instanceof Error ? e.message : String(e)
+    return SIZE_LIMIT_ERRORS.some((pattern) => pattern.test(message))
+}
+
+/**
+ * A read of the protocol contract to be batched
+ */
+export type ContractCall = {
+    functionName: string
+    args: unknown[]
+}
+
+/**
+ * Read the protocol contract many times through Multicall3, a bounded number of calls per request
+ * @dev When a request is rejected as too large for the node or the block gas limit it is halved and retried, and later requests keep the smaller size
+ * @dev Transport failures are thrown, any other failure of a request (e.g. no Multicall3 on the chain) falls back to reading every call on its own
+ * @dev A call that reverts only fails its own item
+ * @param client Viem clients used to send the requests
+ * @param contract Protocol contract being read
+ * @param calls Reads to perform
+ * @param batchSize Maximum calls per request
+ * @returns Result of every call in the order supplied
+ */
+export async function multicall<T>(
+    client: Client,
+    contract: ContractAddressAndAbi,
+    calls: ContractCall[],
+    batchSize: number
+): Promise<BulkResult<T>[]> {
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "batchSize must be a positive integer")
+    }
+
+    const multicallAddress = client.public.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS
+    const results: BulkResult<T>[] = []
+    let size = batchSize
+    let start = 0
+    let fallback = false
+    while (start < calls.length) {
+        const chunk = calls.slice(start, start + size)
+        if (fallback) {
+            results.push(...await readEach<T>(client, contract, chunk))
+            start += chunk.length
+            continue
+        }
+
+        let returned: readonly { success: boolean, returnData: Hex }[]
+        try {
+            returned = await client.public.readContract({
+                address: multicallAddress,
+                abi: multicall3Abi,
+                functionName: "aggregate3",
+                args: [chunk.map((call) => ({
+                    target: contract.address,
+                    allowFailure: true,
+                    callData: encodeFunctionData({ abi: contract.abi, functionName: call.functionName, args: call.args }),
+                }))],
+            })
+        } catch (e) {
+            if (chunk.length > 1 && isSizeLimitError(e)) {
+                size = Math.ceil(chunk.length / 2)
+                continue
+            }
+            const error = toStreamsError(e)
+            if (error instanceof StreamsTransportError) {
+                throw error
+            }
+            fallback = true
+            continue
+        }
+
+        returned.forEach(({ success, returnData }, i) => {
+            const { functionName } = chunk[i]
+            try {
+                if (!success) {
+                    throw new ContractFunctionRevertedError({ abi: contract.abi, data: returnData, functionName })
+                }
+                results.push({
+                    status: "success",
+                    result: decodeFunctionResult({ abi: contract.abi, functionName, data: returnData }) as T,
+                })
+            } catch (e) {
+                results.push({ status: "failure", error: toStreamsError(e) })
+            }
+        })
+        start += chunk.length
+    }
+    return results
+}
+
+// Read every call with its own request, for chains where Multicall3 cannot be used
+async function readEach<T>(client: Client, contract: ContractAddressAndAbi, calls: ContractCall[]): Promise<BulkResult<T>[]> {
+    return Promise.all(calls.map(async (call): Promise<BulkResult<T>> => {
+        try {
+            const result = await client.public.readContract({
+                address: contract.address,
+                abi: contract.abi,
+                functionName: call.functionName,
+                args: call.args,
+            })
+            return { status: "success", result: result as T }
+        } catch (e) {
+            return { status: "failure", error: toStreamsError(e) }
+        }
+    }))
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { createPublicClient, createWalletClient, custom, HttpRequestError, keccak256, toHex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { SDK } from "@/index"
+import { StreamsEmulator } from "@/modules/emulator"
+import { defineSchema } from "@/modules/streams/schema"
+
+const account = privateKeyToAccount(`0x${"22".repeat(32)}`)
+const counter = defineSchema("uint64 n")
+
+async function setup<M extends "throw" | "result" = "throw">(errorMode: M = "throw" as M) {
+    const emulator = new StreamsEmulator()
+    let dropping = false
+    let losing = 0
+    // Raw transactions can be swallowed to emulate a transaction dropped from the mempool,
+    // or accepted with the response lost to emulate a connection failing in transit
+    const transport = custom({
+        request: async ({ method, params }) => {
+            if (dropping && method === "eth_sendRawTransaction") {
+                return keccak256((params as [`0x${string}`])[0])
+            }
+            if (losing > 0 && method === "eth_sendRawTransaction") {
+                losing--
+                await emulator.request(method, params)
+                throw new HttpRequestError({ url: "http://localhost:8545", details: "socket hang up" })
+            }
+            return emulator.request(method, params)
+        },
+    }, { retryCount: 0 })
+    const client = {
+        public: createPublicClient({ chain: emulator.chain, transport, pollingInterval: 10 }),
+        wallet: createWalletClient({ chain: emulator.chain, account, transport }),
+    }
+    const sdk = new SDK(client, { errorMode, logLevel: "silent" })
+
+    const { streams } = new SDK(client, { errorMode: "throw", logLevel: "silent" })
+    await (await streams.registerDataSchemas([{ schemaName: "counter", schema: counter.schema }])).wait()
+    const schemaId = await streams.computeSchemaId(counter.schema)
+    const write = (n: number) => [{ id: toHex(n, { size: 32 }), schemaId, data: counter.encode({ n: BigInt(n) }) }]
+    return { sdk, publicClient: client.public, schemaId, write, drop: (value: boolean) => { dropping = value }, lose: (count: number) => { losing = count } }
+}
+
+describe("Publisher", () => {
+    it("assigns consecutive nonces and confirms every queued transaction", async () => {
+        const { sdk, schemaId, write } = await setup()
+        const publisher = sdk.streams.createPublisher({ maxInFlight: 4 })
+        const confirmed: number[] = []
+        publisher.on("confirmed", ({ nonce }) => confirmed.push(nonce))
+
+        const sent = await Promise.all([1, 2, 3, 4, 5].map((n) => publisher.set(write(n))))
+        const first = sent[0].nonce
+        expect(sent.map((tx) => tx.nonce)).toEqual([0, 1, 2, 3, 4].map((i) => first + i))
+
+        await publisher.close()
+        expect(confirmed.sort()).toEqual(sent.map((tx) => tx.nonce))
+        expect(publisher.pending).toBe(0)
+        expect(await sdk.streams.totalPublisherDataForSchema(schemaId, account.address)).toBe(BigInt(5))
+    })
+
+    it("reads the nonce from chain again once another sender used the wallet", async () => {
+        const { sdk, write } = await setup()
+        const publisher = sdk.streams.createPublisher({ retryDelay: 1 })
+        const retries: number[] = []
+        publisher.on("retry", ({ attempt }) => retries.push(attempt))
+
+        const first = await publisher.set(write(1))
+        await first.wait()
+        await (await sdk.streams.set(write(2))).wait()
+
+        const second = await publisher.set(write(3))
+        await second.wait()
+        expect(retries).toEqual([1])
+        expect(second.nonce).toBe(first.nonce + 2)
+    })
+
+    it("fails a transaction still missing after the last fee bump", async () => {
+        const { sdk, write, drop } = await setup()
+        const publisher = sdk.streams.createPublisher({ stuckAfter: 20, maxFeeBumps: 1 })
+        const events: string[] = []
+        publisher.on("replaced", () => events.push("replaced"))
+        publisher.on("failed", () => events.push("failed"))
+
+        drop(true)
+        const dropped = await publisher.set(write(1))
+        await expect(dropped.wait()).rejects.toThrow(/Timed out/)
+        await publisher.drain()
+        expect(events).toEqual(["replaced", "failed"])
+
+        // The nonce of the dropped transaction is used again
+        drop(false)
+        const next = await publisher.set(write(2))
+        await next.wait()
+        expect(next.nonce).toBe(dropped.nonce)
+    })
+
+    it("tracks a transaction the node accepted although sending it failed", async () => {
+        const { sdk, publicClient, write, lose } = await setup()
+        const publisher = sdk.streams.createPublisher({ retryDelay: 1 })
+        const retries: number[] = []
+        publisher.on("retry", ({ attempt }) => retries.push(attempt))
+        const start = await publicClient.getTransactionCount({ address: account.address })
+
+        lose(1)
+        const first = await publisher.set(write(1))
+        await first.wait()
+        const second = await publisher.set(write(2))
+        await second.wait()
+
+        // The accepted transaction is not sent again under another nonce
+        expect(retries).toEqual([1])
+        expect([first.nonce, second.nonce]).toEqual([start, start + 1])
+        expect(await publicClient.getTransactionCount({ address: account.address })).toBe(start + 2)
+    })
+
+    it("reports wait failures according to the error mode", async () => {
+        const { sdk, write, drop } = await setup("result")
+        const publisher = sdk.streams.createPublisher({ stuckAfter: 20, maxFeeBumps: 0 })
+
+        drop(true)
+        const published = await publisher.set(write(1))
+        if (!published.ok) {
+            throw published.error
+        }
+        const outcome = await published.value.wait()
+        expect(outcome.ok).toBe(false)
+        expect(!outcome.ok && outcome.error.method).toBe("publisher.wait")
+    })
+})
@@ -0,0 +1,635 @@
+import {
+    Account,
+    Address,
+    BaseError,
+    Hex,
+    NonceTooLowError,
+    TransactionNotFoundError,
+    TransactionReceipt,
+    TransactionReceiptNotFoundError,
+    WaitForTransactionReceiptTimeoutError,
+    encodeFunctionData,
+    keccak256,
+} from "viem"
+import { getTransactionError } from "viem/utils"
+import { Client } from "@/types"
+import { ContractAddressAndAbi } from "@/services/smart-contracts"
+import { Logger } from "@/services/logs"
+import {
+    StreamsError,
+    StreamsErrorCode,
+    StreamsTransportError,
+    StreamsValidationError,
+    StreamsWalletError,
+    toStreamsError,
+} from "@/services/errors"
+import { decodeStreamsReceipt } from "@/services/transactions"
+import { compressDataStreams } from "@/services/compression"
+import { encryptDataStreams } from "@/services/encryption"
+import {
+    DataStream,
+    ErrorMode,
+    EventStream,
+    Outcome,
+    PublishedTransaction,
+    PublisherEvents,
+    PublisherOptions,
+    PublishOptions,
+    WaitOptions,
+    WriteResult,
+} from "@/types/streams"
+
+/**
+ * Services a publishing queue borrows from the Streams instance that created it
+ * @param client Viem clients used to send transactions and poll for receipts
+ * @param logger Destination for queue diagnostics
+ * @param getStreamsContract Resolves the protocol contract for the connected chain
+ * @param resolveSender Resolves the account transactions are sent from
+ * @param execute Runs a method body and reports its outcome according to the configured error mode
+ */
+export type PublisherContext<M extends ErrorMode> = {
+    client: Client
+    logger: Logger
+    getStreamsContract(): Promise<ContractAddressAndAbi>
+    resolveSender(): Promise<Account | Address | undefined>
+    execute<T>(method: string, args: Record<string, unknown>, fn: () => Promise<T>): Promise<Outcome<T, M>>
+}
+
+type Fees =
+    | { maxFeePerGas: bigint, maxPriorityFeePerGas: bigint }
+    | { gasPrice: bigint }
+
+type Deferred<T> = {
+    promise: Promise<T>
+    resolve(value: T): void
+    reject(error: unknown): void
+}
+
+type QueueEntry = {
+    id: number
+    key: string
+    functionName: string
+    args: unknown[]
+    nonce?: number
+    fees?: Fees
+    hashes: Hex[]
+    // Transactions signed locally for the entry, which may have reached the node even when sending them failed
+    signed: { hash: Hex, nonce: number, fees: Fees }[]
+    // Nonce of a send to a remote signer that failed in transit, whose hash is not known
+    unconfirmedNonce?: number
+    sentAt: number
+    bumps: number
+    sent: Deferred<void>
+    confirmed: Deferred<{ hash: Hex, result: WriteResult }>
+}
+
+type Listener<E extends keyof PublisherEvents> = (payload: PublisherEvents[E]) => void
+
+const DEFAULT_KEY = "default"
+
+// Nodes only accept a replacement transaction when its fees are at least 10% higher
+const MIN_FEE_BUMP_PERCENT = 10
+
+function deferred<T>(): Deferred<T> {
+    let resolve!: (value: T) => void
+    let reject!: (error: unknown) => void
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res
+        reject = rej
+    })
+    return { promise, resolve, reject }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function isNonceTooLow(e: unknown): boolean {
+    return e instanceof BaseError && e.walk((err) => err instanceof NonceTooLowError) instanceof NonceTooLowError
+}
+
+function bumpFees(previous: Fees, current: Fees, percent: number): Fees {
+    const bump = (value: bigint) => value * BigInt(100 + percent) / BigInt(100)
+    const max = (a: bigint, b: bigint) => a > b ? a : b
+
+    if ("gasPrice" in previous || "gasPrice" in current) {
+        const previousPrice = "gasPrice" in previous ? previous.gasPrice : previous.maxFeePerGas
+        const currentPrice = "gasPrice" in current ? current.gasPrice : current.maxFeePerGas
+        return { gasPrice: max(bump(previousPrice), currentPrice) }
+    }
+    return {
+        maxFeePerGas: max(bump(previous.maxFeePerGas), current.maxFeePerGas),
+        maxPriorityFeePerGas: max(bump(previous.maxPriorityFeePerGas), current.maxPriorityFeePerGas),
+    }
+}
+
+/**
+ * Queue for publishing many transactions from a single wallet
+ * @dev Nonces are assigned locally so that transactions are pipelined rather than waiting on one another to be mined
+ * @dev Transactions published under the same key are sent in publish order, different keys are served in turn
+ * @dev Publishing waits for capacity once maxPending transactions are queued or awaiting confirmation
+ */
+export class Publisher<M extends ErrorMode = "legacy"> {
+    private readonly options: Required<PublisherOptions>
+    private readonly lanes = new Map<string, QueueEntry[]>()
+    private readonly inFlight = new Set<QueueEntry>()
+    private readonly listeners: { [E in keyof PublisherEvents]?: Set<Listener<E>> } = {}
+    private capacityWaiters: (() => void)[] = []
+    private drainWaiters: (() => void)[] = []
+    private size = 0
+    private nextId = 0
+    private nonce: number | undefined
+    private dispatching = false
+    private closed = false
+
+    /**
+     * @param context Services borrowed from the Streams instance
+     * @param options Queue limits, retry and fee bump configuration
+     */
+    constructor(private readonly context: PublisherContext<M>, options: PublisherOptions = {}) {
+        this.options = {
+            maxPending: options.maxPending ?? 256,
+            maxInFlight: options.maxInFlight ?? 16,
+            maxRetries: options.maxRetries ?? 3,
+            retryDelay: options.retryDelay ?? 500,
+            stuckAfter: options.stuckAfter ?? 30000,
+            feeBumpPercent: options.feeBumpPercent ?? 15,
+            maxFeeBumps: options.maxFeeBumps ?? 3,
+        }
+        if (this.options.maxPending < 1 || this.options.maxInFlight < 1) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "maxPending and maxInFlight must be at least 1")
+        }
+        if (this.options.feeBumpPercent < MIN_FEE_BUMP_PERCENT) {
+            throw new StreamsValidationError(
+                StreamsErrorCode.InvalidArgument,
+                `feeBumpPercent must be at least ${MIN_FEE_BUMP_PERCENT} for nodes to accept replacement transactions`
+            )
+        }
+    }
+
+    /**
+     * Number of transactions queued or awaiting confirmation
+     */
+    public get pending(): number {
+        return this.size
+    }
+
+    /**
+     * Number of transactions sent but not yet confirmed
+     */
+    public get sending(): number {
+        return this.inFlight.size
+    }
+
+    /**
+     * Queue a write of data streams
+     * @param dataStreams Bytes stream array that has unique keys referencing schemas
+     * @param options Ordering key of the transaction and whether to compress or encrypt the payloads
+     * @returns Published transaction once it has been sent or Error
+     */
+    public async set(dataStreams: DataStream[], options?: PublishOptions): Promise<Outcome<PublishedTransaction<M>, M>> {
+        return this.publish("set", "esstores", async () => [await this.payload(dataStreams, options)], { dataStreams, options })
+    }
+
+    /**
+     * Queue an emission of registered streams events
+     * @param events Somnia stream event ids and associated arguments to emit EVM logs
+     * @param options Ordering key of the transaction
+     * @returns Published transaction once it has been sent or Error
+     */
+    public async emitEvents(events: EventStream[], options?: PublishOptions): Promise<Outcome<PublishedTransaction<M>, M>> {
+        return this.publish("emitEvents", "emitEvents", async () => [events], { events, options })
+    }
+
+    /**
+     * Queue a write of data streams followed by an emission of registered streams events
+     * @param dataStreams Bytes stream array that has unique keys referencing schemas
+     * @param eventStreams Somnia stream event ids and associated arguments to emit EVM logs
+     * @param options Ordering key of the transaction and whether to compress or encrypt the payloads
+     * @returns Published transaction once it has been sent or Error
+     */
+    public async setAndEmitEvents(
+        dataStreams: DataStream[],
+        eventStreams: EventStream[],
+        options?: PublishOptions
+    ): Promise<Outcome<PublishedTransaction<M>, M>> {
+        return this.publish(
+            "setAndEmitEvents",
+            "publishDataAndEmitEvents",
+            async () => [await this.payload(dataStreams, options), eventStreams],
+            { dataStreams, eventStreams, options }
+        )
+    }
+
+    /**
+     * Listen to the status events of the queue
+     * @param event Status event name
+     * @param listener Called with the event payload
+     * @returns Function that removes the listener
+     */
+    public on<E extends keyof PublisherEvents>(event: E, listener: Listener<E>): () => void {
+        const listeners = (this.listeners[event] ?? new Set()) as Set<Listener<E>>
+        listeners.add(listener)
+        this.listeners[event] = listeners as (typeof this.listeners)[E]
+        return () => {
+            listeners.delete(listener)
+        }
+    }
+
+    /**
+     * Wait until every queued transaction has been confirmed or has failed
+     */
+    public async drain(): Promise<void> {
+        if (this.size === 0) {
+            return
+        }
+        await new Promise<void>((resolve) => this.drainWaiters.push(resolve))
+    }
+
+    /**
+     * Stop accepting new transactions and wait for the queued ones to settle
+     */
+    public async close(): Promise<void> {
+        this.closed = true
+        await this.drain()
+    }
+
+    private async publish(
+        method: string,
+        functionName: string,
+        buildArgs: () => Promise<unknown[]>,
+        namedArgs: Record<string, unknown> & { options?: PublishOptions }
+    ): Promise<Outcome<PublishedTransaction<M>, M>> {
+        return this.context.execute(method, namedArgs, async () => {
+            if (this.closed) {
+                throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "Publisher has been closed")
+            }
+            if (!this.context.client.wallet) {
+                throw new StreamsWalletError("Publishing requires a wallet client")
+            }
+
+            const args = await buildArgs()
+            while (this.size >= this.options.maxPending) {
+                await new Promise<void>((resolve) => this.capacityWaiters.push(resolve))
+            }
+
+            const entry: QueueEntry = {
+                id: this.nextId++,
+                key: namedArgs.options?.key ?? DEFAULT_KEY,
+                functionName,
+                args,
+                hashes: [],
+                signed: [],
+                sentAt: 0,
+                bumps: 0,
+                sent: deferred(),
+                confirmed: deferred(),
+            }
+            // Failures are reported through the failed event, wait() only surfaces them when it is called
+            entry.confirmed.promise.catch(() => undefined)
+            const lane = this.lanes.get(entry.key) ?? []
+            lane.push(entry)
+            this.lanes.set(entry.key, lane)
+            this.size++
+            this.emit("queued", { id: entry.id, key: entry.key })
+
+            void this.dispatch()
+            await entry.sent.promise
+            return this.publishedTransaction(entry)
+        })
+    }
+
+    private async payload(dataStreams: DataStream[], options?: PublishOptions): Promise<DataStream[]> {
+        let payload = options?.compress ? await compressDataStreams(dataStreams) : dataStreams
+        if (options?.encrypt) {
+            payload = await encryptDataStreams(payload, options.encrypt)
+        }
+        return payload
+    }
+
+    /**
+     * @dev Sends queued transactions one at a time until the in flight limit is reached
+     */
+    private async dispatch(): Promise<void> {
+        if (this.dispatching) {
+            return
+        }
+        this.dispatching = true
+        try {
+            let entry: QueueEntry | undefined
+            while (this.inFlight.size < this.options.maxInFlight && (entry = this.nextEntry())) {
+                await this.send(entry)
+            }
+        } finally {
+            this.dispatching = false
+        }
+    }
+
+    /**
+     * @dev Takes the head of the next lane in turn so that a busy key cannot starve the others
+     */
+    private nextEntry(): QueueEntry | undefined {
+        for (const [key, lane] of this.lanes) {
+            const entry = lane.shift()
+            // Re-insert the lane so that it moves to the back of the rotation
+            this.lanes.delete(key)
+            if (lane.length > 0) {
+                this.lanes.set(key, lane)
+            }
+            if (entry) {
+                return entry
+            }
+        }
+        return undefined
+    }
+
+    private async send(entry: QueueEntry): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                // A send that failed in transit may still have been accepted, so it is looked up before sending again
+                const accepted = attempt > 1 ? await this.findAccepted(entry) : undefined
+                if (accepted) {
+                    this.markSent(entry, accepted.nonce, accepted.fees, accepted.hash)
+                    return
+                }
+
+                const nonce = this.nonce ?? await this.fetchNonce()
+                const fees = await this.currentFees()
+                const hash = await this.writeContract(entry, nonce, fees)
+                this.markSent(entry, nonce, fees, hash)
+                return
+            } catch (e) {
+                const error = toStreamsError(e)
+                const nonceTooLow = isNonceTooLow(e)
+                if (nonceTooLow) {
+                    // Another sender used the wallet so the local nonce is read from chain again
+                    this.nonce = undefined
+                }
+                if (!(error instanceof StreamsTransportError)) {
+                    // The node answered, so a nonce sent to a remote signer was not used by this send
+                    entry.unconfirmedNonce = undefined
+                }
+                if ((nonceTooLow || error instanceof StreamsTransportError) && attempt <= this.options.maxRetries) {
+                    this.emit("retry", { id: entry.id, key: entry.key, attempt, error })
+                    await sleep(this.options.retryDelay * 2 ** (attempt - 1))
+                    continue
+                }
+
+                this.emit("failed", { id: entry.id, key: entry.key, error })
+                entry.sent.reject(error)
+                this.settle()
+                return
+            }
+        }
+    }
+
+    private markSent(entry: QueueEntry, nonce: number, fees: Fees, hash: Hex): void {
+        this.nonce = nonce + 1
+        entry.nonce = nonce
+        entry.fees = fees
+        entry.sentAt = Date.now()
+        entry.hashes.push(hash)
+        this.inFlight.add(entry)
+        this.emit("sent", { id: entry.id, key: entry.key, nonce, hash })
+        entry.sent.resolve()
+        void this.track(entry)
+    }
+
+    /**
+     * @dev Finds a transaction of the entry that reached the node although sending it failed
+     * @dev Remote signers do not reveal the hash before sending, so a used nonce cannot be told apart from another sender and fails the entry
+     */
+    private async findAccepted(entry: QueueEntry): Promise<{ hash: Hex, nonce: number, fees: Fees } | undefined> {
+        for (const signed of entry.signed) {
+            try {
+                await this.context.client.public.getTransaction({ hash: signed.hash })
+                return signed
+            } catch (e) {
+                if (!(e instanceof TransactionNotFoundError)) {
+                    throw e
+                }
+            }
+        }
+
+        if (entry.unconfirmedNonce !== undefined && await this.fetchNonce() > entry.unconfirmedNonce) {
+            this.nonce = undefined
+            throw new StreamsError(
+                StreamsErrorCode.Unknown,
+                `Nonce ${entry.unconfirmedNonce} was used after sending failed, the transaction may have been sent - check before publishing it again`
+            )
+        }
+        return undefined
+    }
+
+    /**
+     * @dev Polls for the receipt of any of the hashes sent for an entry, replacing the transaction when it is stuck
+     * @dev A transaction still stuck after the last replacement was most likely dropped or replaced externally, so it fails
+     */
+    private async track(entry: QueueEntry): Promise<void> {
+        try {
+            for (;;) {
+                await sleep(this.context.client.public.pollingInterval)
+
+                const receipt = await this.findReceipt(entry)
+                if (receipt) {
+                    const { address, abi } = await this.context.getStreamsContract()
+                    const result = decodeStreamsReceipt(receipt, abi, address)
+                    this.inFlight.delete(entry)
+                    this.emit("confirmed", {
+                        id: entry.id,
+                        key: entry.key,
+                        nonce: entry.nonce!,
+                        hash: receipt.transactionHash,
+                        result,
+                    })
+                    entry.confirmed.resolve({ hash: receipt.transactionHash, result })
+                    this.settle()
+                    void this.dispatch()
+                    return
+                }
+
+                if (Date.now() - entry.sentAt >= this.options.stuckAfter) {
+                    if (entry.bumps >= this.options.maxFeeBumps) {
+                        throw new WaitForTransactionReceiptTimeoutError({ hash: entry.hashes[entry.hashes.length - 1] })
+                    }
+                    await this.replace(entry)
+                }
+            }
+        } catch (e) {
+            const error = toStreamsError(e)
+            this.inFlight.delete(entry)
+            // The nonce of a dropped transaction is free again so it is read from chain for the next transaction
+            this.nonce = undefined
+            this.emit("failed", { id: entry.id, key: entry.key, error })
+            entry.confirmed.reject(error)
+            this.settle()
+            void this.dispatch()
+        }
+    }
+
+    private async findReceipt(entry: QueueEntry): Promise<TransactionReceipt | undefined> {
+        for (const hash of entry.hashes) {
+            try {
+                return await this.context.client.public.getTransactionReceipt({ hash })
+            } catch (e) {
+                if (!(e instanceof TransactionReceiptNotFoundError)) {
+                    this.context.logger.debug(`Failed to fetch receipt: ${toStreamsError(e).message}`, {
+                        method: "publisher",
+                        hash,
+                    })
+                }
+            }
+        }
+        return undefined
+    }
+
+    /**
+     * @dev Re-sends a stuck transaction with the same nonce and higher fees
+     */
+    private async replace(entry: QueueEntry): Promise<void> {
+        const replacedHash = entry.hashes[entry.hashes.length - 1]
+        try {
+            const fees = bumpFees(entry.fees!, await this.currentFees(), this.options.feeBumpPercent)
+            const hash = await this.writeContract(entry, entry.nonce!, fees)
+            entry.fees = fees
+            entry.hashes.push(hash)
+            this.emit("replaced", { id: entry.id, key: entry.key, nonce: entry.nonce!, hash, replacedHash })
+        } catch (e) {
+            // A nonce that is already used means one of the sent transactions was mined, which the next poll picks up
+            this.context.logger.debug(`Failed to replace stuck transaction: ${toStreamsError(e).message}`, {
+                method: "publisher",
+                hash: replacedHash,
+            })
+        }
+        entry.bumps++
+        entry.sentAt = Date.now()
+    }
+
+    private async writeContract(entry: QueueEntry, nonce: number, fees: Fees): Promise<Hex> {
+        const wallet = this.context.client.wallet
+        const account = await this.context.resolveSender()
+        if (!wallet || !account) {
+            throw new StreamsWalletError("Failed to send transaction - check wallet client")
+        }
+
+        const { address, abi } = await this.context.getStreamsContract()
+        if (typeof account === "string" || account.type !== "local") {
+            entry.unconfirmedNonce = nonce
+            return wallet.writeContract({
+                address,
+                abi,
+                functionName: entry.functionName,
+                args: entry.args,
+                account,
+                chain: wallet.chain,
+                nonce,
+                ...fees,
+            } as Parameters<typeof wallet.writeContract>[0])
+        }
+
+        // Local accounts are signed here, as writeContract would, so that the hash is known before the transaction is sent
+        const request = await wallet.prepareTransactionRequest({
+            account,
+            chain: wallet.chain,
+            to: address,
+            data: encodeFunctionData({ abi, functionName: entry.functionName, args: entry.args }),
+            nonce,
+            ...fees,
+        } as Parameters<typeof wallet.prepareTransactionRequest>[0])
+        const serializedTransaction = await wallet.signTransaction(request as Parameters<typeof wallet.signTransaction>[0])
+        entry.signed.push({ hash: keccak256(serializedTransaction), nonce, fees })
+        try {
+            return await wallet.sendRawTransaction({ serializedTransaction })
+        } catch (e) {
+            // Node errors such as nonce too low are recognised the same way as when writeContract sends the transaction
+            throw getTransactionError(e as BaseError, request as Parameters<typeof getTransactionError>[1])
+        }
+    }
+
+    private async fetchNonce(): Promise<number> {
+        const account = await this.context.resolveSender()
+        if (!account) {
+            throw new StreamsWalletError("Failed to send transaction - check wallet client")
+        }
+        return this.context.client.public.getTransactionCount({
+            address: typeof account === "string" ? account : account.address,
+            blockTag: "pending",
+        })
+    }
+
+    private async currentFees(): Promise<Fees> {
+        try {
+            const { maxFeePerGas, maxPriorityFeePerGas } = await this.context.client.public.estimateFeesPerGas()
+            return { maxFeePerGas, maxPriorityFeePerGas }
+        } catch (e) {
+            if (toStreamsError(e) instanceof StreamsTransportError) {
+                throw e
+            }
+            // Chains without EIP-1559 fees fall back to a legacy gas price
+            return { gasPrice: await this.context.client.public.getGasPrice() }
+        }
+    }
+
+    private publishedTransaction(entry: QueueEntry): PublishedTransaction<M> {
+        const client = this.context.client.public
+        return {
+            id: entry.id,
+            key: entry.key,
+            nonce: entry.nonce!,
+            get hash() {
+                return entry.hashes[entry.hashes.length - 1]
+            },
+            wait: (options: WaitOptions = {}) => this.context.execute("publisher.wait", { id: entry.id, options }, async () => {
+                let timer: ReturnType<typeof setTimeout> | undefined
+                try {
+                    const { hash, result } = await (options.timeout === undefined
+                        ? entry.confirmed.promise
+                        : Promise.race([
+                            entry.confirmed.promise,
+                            new Promise<never>((_, reject) => {
+                                timer = setTimeout(
+                                    () => reject(new WaitForTransactionReceiptTimeoutError({ hash: entry.hashes[entry.hashes.length - 1] })),
+                                    options.timeout
+                                )
+                            }),
+                        ]))
+                    if ((options.confirmations ?? 1) > 1) {
+                        await client.waitForTransactionReceipt({ hash, confirmations: options.confirmations, timeout: options.timeout })
+                    }
+                    return result
+                } finally {
+                    clearTimeout(timer)
+                }
+            }),
+        }
+    }
+
+    /**
+     * @dev Frees the capacity held by a transaction that was confirmed or failed
+     */
+    private settle(): void {
+        this.size--
+        const capacityWaiters = this.capacityWaiters
+        this.capacityWaiters = []
+        capacityWaiters.forEach((resolve) => resolve())
+
+        if (this.size === 0) {
+            const drainWaiters = this.drainWaiters
+            this.drainWaiters = []
+            drainWaiters.forEach((resolve) => resolve())
+            this.emit("drained", {})
+        }
+    }
+
+    private emit<E extends keyof PublisherEvents>(event: E, payload: PublisherEvents[E]): void {
+        const listeners = this.listeners[event] as Set<Listener<E>> | undefined
+        listeners?.forEach((listener) => {
+            try {
+                listener(payload)
+            } catch (e) {
+                // A failing listener must not stall the queue
+                this.context.logger.warn(`Publisher ${event} listener threw: ${toStreamsError(e).message}`, { method: "publisher" })
+            }
+        })
+    }
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import {
+    Hex,
+    AbiParameter,
+    AbiParameterToPrimitiveType,
+    ParseAbiParameters,
+} from "viem"
+import { SchemaEncoder } from "../encoder"
+
+/**
+ * The schema encoder accepts ipfsHash as an alias for bytes32 so the type level parser has to do the same
+ */
+type NormaliseSchema<S extends string> = S extends `${infer Head}ipfsHash ${infer Tail}`
+    ? NormaliseSchema<`${Head}bytes32 ${Tail}`>
+    : S
+
+/**
+ * Solidity ABI parameters inferred from a literal schema string
+ */
+export type SchemaParameters<S extends string> = ParseAbiParameters<NormaliseSchema<S>> extends infer P extends readonly AbiParameter[]
+    ? P
+    : readonly AbiParameter[]
+
+/**
+ * Field name of a schema parameter, falling back to its position for unnamed fields i.e. "uint64, string label" -> _0, label
+ */
+type FieldName<P, I extends string> = P extends { name: infer N extends string } ? N extends "" ? `_${I}` : N : `_${I}`
+
+/**
+ * Wraps a value in one array per dimension of an ABI type suffix i.e. [][2] -> T[][]
+ */
+type ArrayOf<T, Suffix extends string> = Suffix extends `[${string}]${infer Rest}` ? readonly ArrayOf<T, Rest>[] : T
+
+/**
+ * Tuples are decoded into objects keyed the same way as top level fields, every other type maps as viem does
+ */
+type FieldValue<P> = P extends { type: `tuple${infer Suffix}`, components: infer C extends readonly AbiParameter[] }
+    ? ArrayOf<FieldRecord<C>, Suffix>
+    : AbiParameterToPrimitiveType<P & AbiParameter>
+
+type FieldRecord<P extends readonly AbiParameter[]> = number extends P["length"]
+    ? Record<string, unknown>
+    : { [I in keyof P & `${number}` as FieldName<P[I], I>]: FieldValue<P[I]> }
+
+/**
+ * Record keyed by field name with each value mapped from its solidity type i.e. uint64 -> bigint, address -> Hex, (uint8 a, string b)[] -> { a: number, b: string }[]
+ * @dev Unnamed schema fields and tuple components are keyed by their position i.e. (uint8, uint8 y) -> { _0: number, y: number }
+ */
+export type SchemaRecord<S extends string> = FieldRecord<SchemaParameters<S>>
+
+/**
+ * A schema definition whose record type is inferred at compile time from the literal schema string
+ * @property schema The raw schema string that is registered on-chain
+ * @property encoder Schema encoder compiled from the raw schema
+ * @property encode ABI encodes a record into the bytes expected by a data stream
+ * @property decode Decodes raw bytes written against the schema back into a record
+ */
+export type TypedSchema<S extends string> = {
+    readonly schema: S
+    readonly encoder: SchemaEncoder
+    encode(record: SchemaRecord<S>): Hex
+    decode(data: Hex): SchemaRecord<S>
+}
+
+/**
+ * Define a schema from a literal solidity schema string so that records written and read against it are type checked
+ * @example const driverSchema = defineSchema("uint64 timestamp, address driver, bytes32 tag")
+ * @param schema Raw CSV string containing solidity value types and field names
+ * @returns Typed schema that can encode and decode records
+ */
+export function defineSchema<const S extends string>(schema: S): TypedSchema<S> {
+    const encoder = new SchemaEncoder(schema)
+
+    return {
+        schema,
+        encoder,
+        encode(record: SchemaRecord<S>): Hex {
+            return encoder.encodeObject(record)
+        },
+        decode(data: Hex): SchemaRecord<S> {
+            return encoder.decodeToObject(data) as SchemaRecord<S>
+        },
+    }
+}
\ No newline at end of file
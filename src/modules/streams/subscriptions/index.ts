@@ -0,0 +1,475 @@
+import {
+    Address,
+    BlockNotFoundError,
+    ContractFunctionRevertedError,
+    Hex,
+    Log,
+    decodeFunctionResult,
+    encodeFunctionData,
+} from "viem"
+import { EthCall } from "@somnia-chain/reactivity"
+import { Client } from "@/types"
+import {
+    StreamsError,
+    StreamsErrorCode,
+    StreamsTransportError,
+    StreamsValidationError,
+    toStreamsError,
+} from "@/services/errors"
+import {
+    BulkResult,
+    LogPosition,
+    ResumeOptions,
+    StreamSubscription,
+    SubscriptionCall,
+    SubscriptionCursor,
+    SubscriptionRetraction,
+} from "@/types/streams"
+import {
+    DEFAULT_LOG_PAGE_SIZE,
+    DEFAULT_MAX_RECONNECT_DELAY,
+    DEFAULT_RECONNECT_DELAY,
+    DEFAULT_REORG_DEPTH,
+} from "@/constants"
+import { queryLogs } from "../events"
+
+/**
+ * Encode subscription calls into the eth calls the node executes for every notification
+ * @param calls Contract reads by function name
+ * @returns Raw eth calls in the same order
+ */
+export function encodeSubscriptionCalls(calls: SubscriptionCall[]): EthCall[] {
+    return calls.map((call) => ({
+        from: call.from,
+        to: call.to,
+        data: encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args ?? [] }),
+    }))
+}
+
+/**
+ * Decode the results of the subscription calls delivered with a notification
+ * @dev A call that reverted or returned something its ABI cannot decode only fails its own item
+ * @param calls Contract reads the results belong to
+ * @param results Raw result of every call
+ * @returns Decoded result of every call in the order supplied
+ */
+export function decodeSubscriptionCalls(calls: SubscriptionCall[], results: Hex[] = []): BulkResult<unknown>[] {
+    return calls.map((call, i) => {
+        try {
+            const data = results[i] ?? "0x"
+            try {
+                return { status: "success", result: decodeFunctionResult({ abi: call.abi, functionName: call.functionName, data }) }
+            } catch {
+                // Whatever cannot be decoded as a result is treated as revert data
+                throw new ContractFunctionRevertedError({ abi: call.abi, data, functionName: call.functionName })
+            }
+        } catch (e) {
+            return { status: "failure", error: toStreamsError(e) }
+        }
+    })
+}
+
+/**
+ * Execute subscription calls against the state of a block, for notifications read back from logs rather than pushed by the node
+ * @param client Viem clients used to perform the calls
+ * @param calls Contract reads by function name
+ * @param blockNumber Block whose state is read
+ * @returns Decoded result of every call in the order supplied
+ */
+export async function executeSubscriptionCalls(
+    client: Client,
+    calls: SubscriptionCall[],
+    blockNumber: bigint
+): Promise<BulkResult<unknown>[]> {
+    return Promise.all(calls.map(async (call): Promise<BulkResult<unknown>> => {
+        try {
+            const result = await client.public.readContract({
+                address: call.to,
+                abi: call.abi,
+                functionName: call.functionName,
+                args: call.args ?? [],
+                account: call.from,
+                blockNumber,
+            })
+            return { status: "success", result }
+        } catch (e) {
+            return { status: "failure", error: toStreamsError(e) }
+        }
+    }))
+}
+
+/**
+ * Leading topics of a topic filter that can be matched by a subscription
+ * @dev Subscriptions only match exact topics so the filter stops at the first wildcard or set of alternatives
+ * @param filter Topic filter where null matches any topic and an array matches any of its values
+ * @returns Exact topics to subscribe to
+ */
+export function subscriptionTopics(filter: (Hex | Hex[] | null)[]): Hex[] {
+    const topics: Hex[] = []
+    for (const topic of filter) {
+        if (typeof topic !== "string") {
+            break
+        }
+        topics.push(topic)
+    }
+    return topics
+}
+
+/**
+ * Whether the topics of a log match a topic filter
+ * @param filter Topic filter where null matches any topic and an array matches any of its values
+ * @param topics Topics of the log
+ * @returns True when every position of the filter matches
+ */
+export function matchesTopicFilter(filter: (Hex | Hex[] | null)[], topics: Hex[]): boolean {
+    return filter.every((expected, i) => {
+        if (expected === null) {
+            return true
+        }
+        const topic = topics[i]?.toLowerCase()
+        return ([] as Hex[]).concat(expected).some((option) => option.toLowerCase() === topic)
+    })
+}
+
+/**
+ * Services a resumable subscription relies on
+ * @param client Viem clients used to read blocks and logs
+ * @param address Contract emitting the logs
+ * @param filter Topic filter of the logs
+ * @param subscribe Starts the node subscription whose notifications signal that new logs exist
+ * @param deliver Decodes and delivers a log, failures of a single notification are reported rather than thrown
+ * @param onError Called when reading logs or the node subscription fails
+ */
+export type ResumableSubscriptionContext = {
+    client: Client
+    address: Address
+    filter: (Hex | Hex[] | null)[]
+    subscribe(onData: () => void, onError: (error: Error) => void): Promise<NodeSubscription | Error>
+    deliver(log: Log, position: LogPosition): Promise<void>
+    onError?(error: StreamsError): void
+}
+
+// Subscription opened on the node, its unsubscribe result is not used
+type NodeSubscription = {
+    subscriptionId: Hex
+    unsubscribe(): Promise<unknown>
+}
+
+// A recent block the subscription has processed, with what was delivered from it
+type TrackedBlock = {
+    blockNumber: bigint
+    blockHash: Hex
+    logIndex: number
+    delivered: SubscriptionRetraction[]
+}
+
+/**
+ * A subscription that reads its notifications from logs in order, tracking a cursor so that nothing is missed
+ * @dev Node notifications only trigger a read of the logs after the cursor, so a dropped connection is recovered by reconnecting with backoff and reading the gap
+ * @dev The hash of the cursor block is checked before every read, when it changed the deliveries from removed blocks are retracted and the logs read again
+ */
+export class ResumableSubscription {
+    private readonly context: ResumableSubscriptionContext
+    private readonly options: ResumeOptions
+
+    // Recent blocks processed, oldest first, the last one being the cursor
+    private blocks: TrackedBlock[] = []
+    // Logs of this block with an index at or below logIndex were already processed
+    private next: { blockNumber: bigint, logIndex: number } = { blockNumber: BigInt(0), logIndex: -1 }
+
+    private node: NodeSubscription | null = null
+    private stopped = false
+    private syncing: Promise<void> | null = null
+    private dirty = false
+    private reconnecting = false
+    private failures = 0
+    private timer: ReturnType<typeof setTimeout> | undefined
+    private wake: (() => void) | undefined
+
+    /**
+     * @param context Client, log filter, node subscription and delivery of notifications
+     * @param options Cursor, persistence, reconnection and reorg settings
+     */
+    constructor(context: ResumableSubscriptionContext, options: ResumeOptions) {
+        if (options.store && !options.storeKey) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "storeKey is required to persist the cursor")
+        }
+        for (const name of ["pageSize", "reorgDepth", "initialDelay", "maxDelay"] as const) {
+            const value = options[name]
+            if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+                throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `${name} must be a positive integer`)
+            }
+        }
+        this.context = context
+        this.options = options
+    }
+
+    /**
+     * Start the node subscription and read the logs missed since the cursor
+     * @returns The running subscription
+     */
+    public async start(): Promise<StreamSubscription> {
+        const cursor = this.options.cursor ?? await this.loadCursor()
+        if (cursor) {
+            this.blocks = [{ ...cursor, delivered: [] }]
+            this.next = { blockNumber: cursor.blockNumber, logIndex: cursor.logIndex }
+        } else {
+            const fromBlock = this.options.fromBlock
+                ?? await this.context.client.public.getBlockNumber({ cacheTime: 0 }) + BigInt(1)
+            this.next = { blockNumber: fromBlock, logIndex: -1 }
+        }
+
+        const node = await this.context.subscribe(() => this.trigger(), (error) => this.disconnected(error))
+        if (node instanceof Error) {
+            throw new StreamsTransportError(`Failed to subscribe: ${node.message}`, { cause: node })
+        }
+        this.node = node
+
+        // Catch up from the cursor straight away rather than waiting for the next notification
+        this.trigger()
+
+        // The node subscription is replaced on every reconnect
+        const subscriptionId = () => this.node?.subscriptionId ?? node.subscriptionId
+        return {
+            get subscriptionId() {
+                return subscriptionId()
+            },
+            unsubscribe: () => this.stop(),
+            cursor: () => this.cursor(),
+        }
+    }
+
+    private cursor(): SubscriptionCursor | undefined {
+        const last = this.blocks[this.blocks.length - 1]
+        return last ? { blockNumber: last.blockNumber, blockHash: last.blockHash, logIndex: last.logIndex } : undefined
+    }
+
+    private async stop(): Promise<void> {
+        this.stopped = true
+        clearTimeout(this.timer)
+        this.wake?.()
+        await this.syncing
+        await this.node?.unsubscribe()
+        this.node = null
+    }
+
+    /**
+     * Read the logs after the cursor, coalescing notifications that arrive while a read is running
+     */
+    private trigger(): void {
+        if (this.stopped) {
+            return
+        }
+        if (this.syncing) {
+            this.dirty = true
+            return
+        }
+
+        this.syncing = (async () => {
+            do {
+                this.dirty = false
+                await this.sync()
+            } while (this.dirty && !this.stopped)
+        })().then(
+            () => {
+                this.failures = 0
+            },
+            (e) => {
+                this.context.onError?.(toStreamsError(e, { method: "subscription.sync" }))
+                clearTimeout(this.timer)
+                this.timer = setTimeout(() => this.trigger(), this.delay(this.failures++))
+            }
+        ).finally(() => {
+            this.syncing = null
+            if (this.dirty) {
+                this.trigger()
+            }
+        })
+    }
+
+    private async sync(): Promise<void> {
+        const { client, address, filter } = this.context
+        const head = await client.public.getBlockNumber({ cacheTime: 0 })
+        await this.detectReorg()
+        if (head < this.next.blockNumber) {
+            return
+        }
+
+        await queryLogs(client, {
+            address,
+            topics: filter,
+            fromBlock: this.next.blockNumber,
+            toBlock: head,
+            pageSize: this.options.pageSize ?? DEFAULT_LOG_PAGE_SIZE,
+        }, async (page) => {
+            for (const log of page) {
+                if (this.stopped) {
+                    return
+                }
+                const blockNumber = log.blockNumber as bigint
+                const logIndex = log.logIndex as number
+                if (log.removed || (blockNumber === this.next.blockNumber && logIndex <= this.next.logIndex)) {
+                    continue
+                }
+
+                const position: LogPosition = {
+                    blockNumber,
+                    blockHash: log.blockHash as Hex,
+                    transactionHash: log.transactionHash as Hex,
+                    logIndex,
+                }
+                await this.context.deliver(log, position)
+                this.track(blockNumber, position.blockHash, logIndex, { ...position, topics: log.topics as Hex[], data: log.data })
+                await this.saveCursor()
+            }
+        })
+        if (this.stopped) {
+            return
+        }
+
+        // Every log up to the head has been processed so the cursor moves to the head even when nothing was delivered
+        const last = this.blocks[this.blocks.length - 1]
+        if (!last || last.blockNumber < head) {
+            const block = await client.public.getBlock({ blockNumber: head })
+            this.track(head, block.hash as Hex, -1)
+        }
+        this.prune(head)
+        await this.saveCursor()
+    }
+
+    private track(blockNumber: bigint, blockHash: Hex, logIndex: number, delivered?: SubscriptionRetraction): void {
+        let last = this.blocks[this.blocks.length - 1]
+        if (!last || last.blockNumber !== blockNumber) {
+            last = { blockNumber, blockHash, logIndex, delivered: [] }
+            this.blocks.push(last)
+        }
+        last.logIndex = logIndex > last.logIndex ? logIndex : last.logIndex
+        if (delivered) {
+            last.delivered.push(delivered)
+        }
+        this.next = { blockNumber, logIndex: last.logIndex }
+    }
+
+    private prune(head: bigint): void {
+        const oldest = head - BigInt(this.options.reorgDepth ?? DEFAULT_REORG_DEPTH)
+        while (this.blocks.length > 1 && this.blocks[0].blockNumber <= oldest) {
+            this.blocks.shift()
+        }
+    }
+
+    /**
+     * Walk back from the cursor over the tracked blocks until one is still on chain, retracting what was delivered from the rest
+     */
+    private async detectReorg(): Promise<void> {
+        const retractions: SubscriptionRetraction[] = []
+        let removedFrom: bigint | undefined
+        while (this.blocks.length > 0) {
+            const tracked = this.blocks[this.blocks.length - 1]
+            const block = await this.context.client.public.getBlock({ blockNumber: tracked.blockNumber }).catch((e) => {
+                if (e instanceof BlockNotFoundError) {
+                    return null
+                }
+                throw e
+            })
+            if (block && block.hash === tracked.blockHash) {
+                break
+            }
+
+            retractions.push(...[...tracked.delivered].reverse())
+            removedFrom = tracked.blockNumber
+            this.blocks.pop()
+        }
+        if (removedFrom === undefined) {
+            return
+        }
+
+        // Read again from the newest block still on chain, or from the oldest removed block when none is left
+        const last = this.blocks[this.blocks.length - 1]
+        this.next = last ? { blockNumber: last.blockNumber, logIndex: last.logIndex } : { blockNumber: removedFrom, logIndex: -1 }
+        for (const retraction of retractions) {
+            try {
+                this.options.onRetract?.(retraction)
+            } catch (e) {
+                this.context.onError?.(toStreamsError(e, { method: "subscription.onRetract" }))
+            }
+        }
+        await this.saveCursor()
+    }
+
+    private disconnected(error: Error): void {
+        this.context.onError?.(new StreamsTransportError(error.message, { cause: error }))
+        if (this.stopped || this.reconnecting) {
+            return
+        }
+        this.reconnecting = true
+        void this.reconnect().finally(() => {
+            this.reconnecting = false
+        })
+    }
+
+    private async reconnect(): Promise<void> {
+        const maxAttempts = this.options.maxAttempts
+        for (let attempt = 0; maxAttempts === undefined || attempt < maxAttempts; attempt++) {
+            await this.sleep(this.delay(attempt))
+            if (this.stopped) {
+                return
+            }
+
+            // The previous subscription is most likely dead so its unsubscribe is not waited on
+            const previous = this.node
+            this.node = null
+            previous?.unsubscribe().catch(() => undefined)
+
+            const node = await this.context.subscribe(() => this.trigger(), (error) => this.disconnected(error))
+                .catch((e: unknown) => e instanceof Error ? e : new Error(String(e)))
+            if (node instanceof Error) {
+                this.context.onError?.(new StreamsTransportError(`Failed to reconnect: ${node.message}`, { cause: node }))
+                continue
+            }
+            if (this.stopped) {
+                await node.unsubscribe()
+                return
+            }
+
+            // Read whatever was emitted while disconnected before resuming live delivery
+            this.node = node
+            this.trigger()
+            return
+        }
+        this.context.onError?.(new StreamsTransportError(`Gave up reconnecting after ${maxAttempts} attempts`))
+    }
+
+    private delay(attempt: number): number {
+        const initial = this.options.initialDelay ?? DEFAULT_RECONNECT_DELAY
+        return Math.min(initial * Math.pow(2, attempt), this.options.maxDelay ?? DEFAULT_MAX_RECONNECT_DELAY)
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(resolve, ms)
+            this.wake = () => {
+                clearTimeout(timer)
+                resolve()
+            }
+        })
+    }
+
+    private async loadCursor(): Promise<SubscriptionCursor | undefined> {
+        const { store, storeKey } = this.options
+        const saved = store && storeKey ? await store.get(storeKey) : undefined
+        if (saved === undefined) {
+            return undefined
+        }
+        const { blockNumber, blockHash, logIndex } = JSON.parse(saved) as { blockNumber: string, blockHash: Hex, logIndex: number }
+        return { blockNumber: BigInt(blockNumber), blockHash, logIndex }
+    }
+
+    private async saveCursor(): Promise<void> {
+        const { store, storeKey } = this.options
+        const cursor = this.cursor()
+        if (!store || !storeKey || !cursor) {
+            return
+        }
+        await store.set(storeKey, JSON.stringify({ ...cursor, blockNumber: cursor.blockNumber.toString() }))
+    }
+}
\ No newline at end of file
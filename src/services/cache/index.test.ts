@@ -0,0 +1,124 @@
+import { createPublicClient, createWalletClient, custom, toHex, zeroHash } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { SDK } from "@/index"
+import { StreamsEmulator } from "@/modules/emulator"
+import { StreamsErrorCode } from "@/services/errors"
+import { CacheStorageAdapter, InMemoryLRUCache, SchemaCache } from "."
+
+const schemaId = toHex(1, { size: 32 })
+
+describe("InMemoryLRUCache", () => {
+    it("evicts the least recently used entry once full", () => {
+        const cache = new InMemoryLRUCache<number>(2)
+        cache.set("a", 1)
+        cache.set("b", 2)
+        expect(cache.get("a")).toBe(1)
+        cache.set("c", 3)
+
+        expect(cache.get("b")).toBeUndefined()
+        expect(cache.get("a")).toBe(1)
+        expect(cache.get("c")).toBe(3)
+    })
+
+    it("refreshes entries that are overwritten", () => {
+        const cache = new InMemoryLRUCache<number>(2)
+        cache.set("a", 1)
+        cache.set("b", 2)
+        cache.set("a", 3)
+        cache.set("c", 4)
+        expect(cache.get("a")).toBe(3)
+        expect(cache.get("b")).toBeUndefined()
+    })
+
+    it("rejects caches that cannot hold an entry", () => {
+        expect(() => new InMemoryLRUCache(0)).toThrow()
+    })
+})
+
+describe("SchemaCache", () => {
+    it("scopes entries and maps names both ways", async () => {
+        const cache = new SchemaCache()
+        await cache.setBaseSchema("1:0xa", schemaId, "uint64 n")
+        await cache.setSchemaName("1:0xa", schemaId, "counter")
+
+        expect(await cache.getBaseSchema("1:0xa", toHex(1, { size: 32 }))).toBe("uint64 n")
+        expect(await cache.getBaseSchema("2:0xa", schemaId)).toBeUndefined()
+        expect(await cache.getSchemaName("1:0xa", schemaId)).toBe("counter")
+        expect(await cache.getSchemaIdForName("1:0xa", "counter")).toBe(schemaId)
+    })
+
+    it("invalidates every entry of a schema", async () => {
+        const cache = new SchemaCache()
+        const other = toHex(2, { size: 32 })
+        await cache.setBaseSchema("1:0xa", schemaId, "uint64 n")
+        await cache.setParentSchemaId("1:0xa", schemaId, other)
+        await cache.setSchemaName("1:0xa", schemaId, "counter")
+        await cache.setBaseSchema("1:0xa", other, "string s")
+
+        await cache.invalidateSchema("1:0xa", schemaId)
+        expect(await cache.getBaseSchema("1:0xa", schemaId)).toBeUndefined()
+        expect(await cache.getParentSchemaId("1:0xa", schemaId)).toBeUndefined()
+        expect(await cache.getSchemaIdForName("1:0xa", "counter")).toBeUndefined()
+        expect(await cache.getBaseSchema("1:0xa", other)).toBe("string s")
+    })
+
+    it("reuses compiled encoders and evicts the least recently used", () => {
+        const cache = new SchemaCache(undefined, 2)
+        const first = cache.getEncoder("uint64 n")
+        expect(cache.getEncoder("uint64 n")).toBe(first)
+
+        cache.getEncoder("string s")
+        cache.getEncoder("bool b")
+        expect(cache.getEncoder("uint64 n")).not.toBe(first)
+    })
+
+    it("persists through a storage adapter", async () => {
+        const entries = new Map<string, string>()
+        const storage: CacheStorageAdapter = {
+            get: async (key) => entries.get(key),
+            set: async (key, value) => {
+                entries.set(key, value)
+            },
+            delete: async (key) => {
+                entries.delete(key)
+            },
+            clear: async () => entries.clear(),
+        }
+        await new SchemaCache(storage).setBaseSchema("1:0xa", schemaId, "uint64 n")
+        expect(await new SchemaCache(storage).getBaseSchema("1:0xa", schemaId)).toBe("uint64 n")
+    })
+})
+
+describe("cached schema reads", () => {
+    it("only reads a schema from chain once it is registered", async () => {
+        const emulator = new StreamsEmulator()
+        const calls: string[] = []
+        const transport = custom({
+            request: ({ method, params }) => {
+                calls.push(method)
+                return emulator.request(method, params)
+            },
+        }, { retryCount: 0 })
+        const sdk = new SDK({
+            public: createPublicClient({ chain: emulator.chain, transport }),
+            wallet: createWalletClient({ chain: emulator.chain, account: privateKeyToAccount(`0x${"99".repeat(32)}`), transport }),
+        }, { errorMode: "throw", logLevel: "silent" })
+        const counterId = await sdk.streams.computeSchemaId("uint64 n")
+        // Nothing is cached for a schema that is not registered yet
+        await expect(sdk.streams.getSchemaFromSchemaId(counterId)).rejects.toMatchObject({ code: StreamsErrorCode.SchemaNotRegistered })
+        await expect(sdk.streams.parentSchemaId(counterId)).resolves.toBe(zeroHash)
+        await (await sdk.streams.registerDataSchemas([{ schemaName: "counter", schema: "uint64 n" }])).wait()
+
+        calls.length = 0
+        expect(await sdk.streams.getSchemaFromSchemaId(counterId)).toMatchObject({ finalSchema: "uint64 n" })
+        expect(calls.filter((method) => method === "eth_call").length).toBeGreaterThan(0)
+
+        calls.length = 0
+        expect(await sdk.streams.getSchemaFromSchemaId(counterId)).toMatchObject({ finalSchema: "uint64 n" })
+        expect(calls.filter((method) => method === "eth_call")).toEqual([])
+
+        await sdk.streams.invalidateSchemaCache(counterId)
+        await sdk.streams.getSchemaFromSchemaId(counterId)
+        expect(calls.filter((method) => method === "eth_call").length).toBeGreaterThan(0)
+    })
+})
@@ -0,0 +1,145 @@
+import { Hex } from "viem"
+import { SchemaEncoder } from "@/modules/streams/encoder"
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Storage backend for cached protocol metadata
+ * @dev Values are strings so that adapters can persist them anywhere (files, localStorage, redis etc.)
+ */
+export interface CacheStorageAdapter {
+    get(key: string): MaybePromise<string | undefined>
+    set(key: string, value: string): MaybePromise<void>
+    delete(key: string): MaybePromise<void>
+    clear(): MaybePromise<void>
+}
+
+/**
+ * Bounded in-memory cache that evicts the least recently used entry once full
+ */
+export class InMemoryLRUCache<V = string> {
+    private entries = new Map<string, V>()
+
+    constructor(private readonly maxEntries: number = 1000) {
+        if (maxEntries < 1) {
+            throw new Error("LRU cache must hold at least one entry")
+        }
+    }
+
+    get(key: string): V | undefined {
+        const value = this.entries.get(key)
+        if (value !== undefined) {
+            // Re-insert so that the entry becomes the most recently used
+            this.entries.delete(key)
+            this.entries.set(key, value)
+        }
+        return value
+    }
+
+    set(key: string, value: V): void {
+        this.entries.delete(key)
+        this.entries.set(key, value)
+        if (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value
+            if (oldestKey !== undefined) {
+                this.entries.delete(oldestKey)
+            }
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key)
+    }
+
+    clear(): void {
+        this.entries.clear()
+    }
+}
+
+/**
+ * Cache for immutable schema metadata read from the Streams protocol
+ * @dev Every entry is scoped (chain id and contract address) so one storage backend can serve many deployments
+ * @dev Compiled schema encoders cannot be serialised and are therefore only ever held in memory
+ */
+export class SchemaCache {
+    private readonly storage: CacheStorageAdapter
+    private readonly encoders: InMemoryLRUCache<SchemaEncoder>
+
+    constructor(storage?: CacheStorageAdapter, maxEncoders: number = 100) {
+        this.storage = storage ?? new InMemoryLRUCache<string>()
+        this.encoders = new InMemoryLRUCache<SchemaEncoder>(maxEncoders)
+    }
+
+    async getBaseSchema(scope: string, schemaId: Hex): Promise<string | undefined> {
+        return this.storage.get(this.key(scope, "schema", schemaId.toLowerCase()))
+    }
+
+    async setBaseSchema(scope: string, schemaId: Hex, schema: string): Promise<void> {
+        await this.storage.set(this.key(scope, "schema", schemaId.toLowerCase()), schema)
+    }
+
+    async getParentSchemaId(scope: string, schemaId: Hex): Promise<Hex | undefined> {
+        return (await this.storage.get(this.key(scope, "parent", schemaId.toLowerCase()))) as Hex | undefined
+    }
+
+    async setParentSchemaId(scope: string, schemaId: Hex, parentSchemaId: Hex): Promise<void> {
+        await this.storage.set(this.key(scope, "parent", schemaId.toLowerCase()), parentSchemaId)
+    }
+
+    async getSchemaName(scope: string, schemaId: Hex): Promise<string | undefined> {
+        return this.storage.get(this.key(scope, "name", schemaId.toLowerCase()))
+    }
+
+    async getSchemaIdForName(scope: string, schemaName: string): Promise<Hex | undefined> {
+        return (await this.storage.get(this.key(scope, "id", schemaName))) as Hex | undefined
+    }
+
+    /**
+     * Stores both directions of the name <> id mapping since a schema name can only ever be assigned once
+     */
+    async setSchemaName(scope: string, schemaId: Hex, schemaName: string): Promise<void> {
+        await Promise.all([
+            this.storage.set(this.key(scope, "name", schemaId.toLowerCase()), schemaName),
+            this.storage.set(this.key(scope, "id", schemaName), schemaId.toLowerCase()),
+        ])
+    }
+
+    /**
+     * Returns a compiled encoder for a final schema, compiling and caching it on first use
+     */
+    getEncoder(finalSchema: string): SchemaEncoder {
+        let encoder = this.encoders.get(finalSchema)
+        if (!encoder) {
+            encoder = new SchemaEncoder(finalSchema)
+            this.encoders.set(finalSchema, encoder)
+        }
+        return encoder
+    }
+
+    /**
+     * Removes everything cached for a single schema
+     */
+    async invalidateSchema(scope: string, schemaId: Hex): Promise<void> {
+        const schemaName = await this.getSchemaName(scope, schemaId)
+        await Promise.all([
+            this.storage.delete(this.key(scope, "schema", schemaId.toLowerCase())),
+            this.storage.delete(this.key(scope, "parent", schemaId.toLowerCase())),
+            this.storage.delete(this.key(scope, "name", schemaId.toLowerCase())),
+            schemaName !== undefined ? this.storage.delete(this.key(scope, "id", schemaName)) : Promise.resolve(),
+        ])
+        // Encoders are keyed by the final schema so they cannot be matched to a schema id
+        this.encoders.clear()
+    }
+
+    /**
+     * Removes every cached entry across all scopes
+     */
+    async clear(): Promise<void> {
+        await this.storage.clear()
+        this.encoders.clear()
+    }
+
+    private key(scope: string, kind: string, id: string): string {
+        return `streams:${scope}:${kind}:${id}`
+    }
+}
\ No newline at end of file
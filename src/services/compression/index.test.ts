@@ -0,0 +1,58 @@
+import { concatHex, createPublicClient, createWalletClient, Hex, size, toHex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { SDK } from "@/index"
+import { StreamsEmulator } from "@/modules/emulator"
+import { defineSchema } from "@/modules/streams/schema"
+import { COMPRESSION_MAGIC, compressData, decompressData, isCompressedData } from "."
+
+const note = defineSchema("uint64 timestamp, string note")
+const repetitive = note.encode({ timestamp: BigInt(1), note: "delivered to depot ".repeat(20) })
+
+describe("compressData", () => {
+    it("round trips a payload that compresses", async () => {
+        const compressed = await compressData(repetitive)
+        expect(isCompressedData(compressed)).toBe(true)
+        expect(size(compressed)).toBeLessThan(size(repetitive))
+        expect(await decompressData(compressed)).toBe(repetitive)
+    })
+
+    it("returns payloads unchanged when compression would not reduce calldata cost", async () => {
+        const random: Hex = toHex(crypto.getRandomValues(new Uint8Array(64)))
+        for (const data of ["0x1234abcd", random, "0x"] as Hex[]) {
+            expect(await compressData(data)).toBe(data)
+        }
+    })
+
+    it("passes through payloads without a valid header", async () => {
+        expect(await decompressData(repetitive)).toBe(repetitive)
+        // The magic bytes followed by an unknown algorithm or a body that does not inflate
+        for (const data of [concatHex([COMPRESSION_MAGIC, "0x09", "0x1234"]), concatHex([COMPRESSION_MAGIC, "0x01", "0x1234"])]) {
+            expect(await decompressData(data)).toBe(data)
+        }
+    })
+})
+
+describe("compressed writes", () => {
+    it("decompresses records on read unless asked not to", async () => {
+        const emulator = new StreamsEmulator()
+        const account = privateKeyToAccount(`0x${"66".repeat(32)}`)
+        const sdk = new SDK({
+            public: createPublicClient({ chain: emulator.chain, transport: emulator.transport }),
+            wallet: createWalletClient({ chain: emulator.chain, account, transport: emulator.transport }),
+        }, { errorMode: "throw", logLevel: "silent" })
+
+        await (await sdk.streams.registerDataSchemas([{ schemaName: "note", schema: note.schema }])).wait()
+        const schemaId = await sdk.streams.computeSchemaId(note.schema)
+        const id = toHex(1, { size: 32 })
+        await (await sdk.streams.set([{ id, schemaId, data: repetitive }], { compress: true })).wait()
+
+        expect(await sdk.streams.getByKey(schemaId, account.address, id, { schema: note })).toEqual([note.decode(repetitive)])
+        expect(await sdk.streams.getByKey(schemaId, account.address, id, { asObject: true })).toEqual([note.decode(repetitive)])
+
+        // Records of a schema that is not registered come back raw, compressed unless decompression is left on
+        const compressed = await compressData(repetitive)
+        const unregistered = toHex(2, { size: 32 })
+        expect(await sdk.streams.deserialiseRawData([compressed], unregistered, { decompress: false })).toEqual([compressed])
+        expect(await sdk.streams.deserialiseRawData([compressed], unregistered)).toEqual([repetitive])
+    })
+})
@@ -0,0 +1,119 @@
+import {
+    Hex,
+    bytesToHex,
+    concatHex,
+    hexToBytes,
+    hexToNumber,
+    numberToHex,
+    size,
+    slice,
+} from "viem"
+import { DataStream } from "@/types/streams"
+
+/**
+ * Compression algorithms understood by the codec, recorded in the header of every compressed payload
+ */
+export enum CompressionAlgorithm {
+    Deflate = 1,
+}
+
+// "SDZ" followed by the codec version
+export const COMPRESSION_MAGIC: Hex = "0x53445a01"
+
+// Magic followed by a single algorithm byte
+const HEADER_SIZE = 5
+
+const STREAM_FORMATS: Record<CompressionAlgorithm, CompressionFormat> = {
+    [CompressionAlgorithm.Deflate]: "deflate",
+}
+
+/**
+ * Calldata gas of a payload where zero bytes cost 4 gas and non zero bytes cost 16 gas
+ */
+function calldataGas(data: Hex): number {
+    return hexToBytes(data).reduce((gas, byte) => gas + (byte === 0 ? 4 : 16), 0)
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const writer = stream.writable.getWriter()
+    // The readable side has to be drained while writing for large payloads so the write is not awaited here
+    const written = writer.write(new Uint8Array(bytes)).then(() => writer.close())
+    written.catch(() => undefined)
+
+    const chunks: Uint8Array[] = []
+    const reader = stream.readable.getReader()
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done) {
+            break
+        }
+        chunks.push(value)
+    }
+    await written
+
+    const output = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+    let offset = 0
+    for (const chunk of chunks) {
+        output.set(chunk, offset)
+        offset += chunk.length
+    }
+    return output
+}
+
+/**
+ * Check for the header written by compressData
+ * @param data Raw bytes of a data stream
+ * @returns Whether the payload is compressed with a known algorithm
+ */
+export function isCompressedData(data: Hex): boolean {
+    if (size(data) < HEADER_SIZE || !data.toLowerCase().startsWith(COMPRESSION_MAGIC)) {
+        return false
+    }
+    return hexToNumber(slice(data, 4, HEADER_SIZE)) in STREAM_FORMATS
+}
+
+/**
+ * Compress a data stream payload behind a self describing header
+ * @dev The payload is returned unchanged when compressing would not make its calldata cheaper, which is typical of short payloads
+ * @param data ABI encoded payload
+ * @param algorithm Compression algorithm to apply
+ * @returns Header and compressed bytes, or the original payload
+ */
+export async function compressData(data: Hex, algorithm: CompressionAlgorithm = CompressionAlgorithm.Deflate): Promise<Hex> {
+    const compressed = await pipe(hexToBytes(data), new CompressionStream(STREAM_FORMATS[algorithm]))
+    const encoded = concatHex([COMPRESSION_MAGIC, numberToHex(algorithm, { size: 1 }), bytesToHex(compressed)])
+    return calldataGas(encoded) < calldataGas(data) ? encoded : data
+}
+
+/**
+ * Decompress a payload written by compressData
+ * @dev Payloads without the header, or that fail to decompress, are returned unchanged
+ * @param data Raw bytes of a data stream
+ * @returns The original ABI encoded payload
+ */
+export async function decompressData(data: Hex): Promise<Hex> {
+    if (!isCompressedData(data)) {
+        return data
+    }
+
+    const algorithm = hexToNumber(slice(data, 4, HEADER_SIZE)) as CompressionAlgorithm
+    try {
+        const body = size(data) > HEADER_SIZE ? hexToBytes(slice(data, HEADER_SIZE)) : new Uint8Array()
+        return bytesToHex(await pipe(body, new DecompressionStream(STREAM_FORMATS[algorithm])))
+    } catch {
+        // Uncompressed data that happens to start with the magic bytes is left as is
+        return data
+    }
+}
+
+/**
+ * Compress the payload of every data stream
+ * @param dataStreams Data streams about to be written
+ * @returns Data streams with compressed payloads where compression reduces calldata cost
+ */
+export async function compressDataStreams(dataStreams: DataStream[]): Promise<DataStream[]> {
+    return Promise.all(dataStreams.map(async (dataStream) => ({
+        ...dataStream,
+        data: await compressData(dataStream.data),
+    })))
+}
\ No newline at end of file
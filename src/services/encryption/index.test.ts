@@ -0,0 +1,84 @@
+import { concatHex, createPublicClient, createWalletClient, Hex, slice, toHex } from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { SDK } from "@/index"
+import { StreamsEmulator } from "@/modules/emulator"
+import { defineSchema } from "@/modules/streams/schema"
+import { createKeyProvider, decryptData, encryptData, ENCRYPTION_MAGIC, EncryptedRecord, generateSymmetricKey, isEncryptedRecord } from "."
+
+const payload: Hex = "0x000000000000000000000000000000000000000000000000000000000000002a"
+
+describe("encryptData", () => {
+    it("round trips a payload encrypted under a symmetric key", async () => {
+        const key = generateSymmetricKey()
+        const encrypted = await encryptData(payload, { symmetricKey: key })
+        expect(encrypted.startsWith(ENCRYPTION_MAGIC)).toBe(true)
+
+        expect(await decryptData(encrypted, createKeyProvider({ symmetricKeys: [key] }))).toBe(payload)
+        expect(await decryptData(encrypted)).toMatchObject({ encrypted: true, reason: "no-key", scheme: "symmetric" })
+        const other = createKeyProvider({ symmetricKeys: [generateSymmetricKey()] })
+        expect(await decryptData(encrypted, other)).toMatchObject({ reason: "no-key" })
+        expect(await decryptData(encrypted, { getSymmetricKey: () => generateSymmetricKey() })).toMatchObject({ reason: "invalid-key" })
+    })
+
+    it("round trips a payload encrypted to several recipients", async () => {
+        const accounts = [generatePrivateKey(), generatePrivateKey(), generatePrivateKey()].map((privateKey) => ({
+            privateKey,
+            account: privateKeyToAccount(privateKey),
+        }))
+        const encrypted = await encryptData(payload, { recipients: accounts.slice(0, 2).map(({ account }) => account.publicKey) })
+
+        for (const { privateKey } of accounts.slice(0, 2)) {
+            expect(await decryptData(encrypted, createKeyProvider({ privateKeys: [privateKey] }))).toBe(payload)
+        }
+        const outsider = await decryptData(encrypted, createKeyProvider({ privateKeys: [accounts[2].privateKey] }))
+        expect(outsider).toMatchObject({ encrypted: true, reason: "no-key", scheme: "ecies" })
+        expect((outsider as EncryptedRecord).keyIds).toEqual(accounts.slice(0, 2).map(({ account }) => account.address))
+    })
+
+    it("returns truncated envelopes as malformed records", async () => {
+        const key = generateSymmetricKey()
+        const symmetric = await encryptData(payload, { symmetricKey: key })
+        const ecies = await encryptData(payload, { recipients: [privateKeyToAccount(generatePrivateKey()).publicKey] })
+        const provider = createKeyProvider({ symmetricKeys: [key] })
+
+        // Cut inside the key id, the recipient entry and the IV
+        for (const data of [slice(symmetric, 0, 20), slice(ecies, 0, 50), slice(symmetric, 0, 40)]) {
+            expect(await decryptData(data, provider)).toMatchObject({ encrypted: true, reason: "malformed" })
+        }
+        // A recipient count larger than the entries present
+        const header = slice(ecies, 0, 38)
+        expect(await decryptData(concatHex([header, toHex(2, { size: 1 }), slice(ecies, 39)]))).toMatchObject({ reason: "malformed" })
+    })
+
+    it("passes plain payloads through", async () => {
+        expect(await decryptData(payload)).toBe(payload)
+        expect(await decryptData(concatHex([ENCRYPTION_MAGIC, "0x09", payload]))).toMatch(/^0x53445801/)
+    })
+})
+
+describe("encrypted reads", () => {
+    it("fails only the malformed record of a read", async () => {
+        const emulator = new StreamsEmulator()
+        const account = privateKeyToAccount(generatePrivateKey())
+        const key = generateSymmetricKey()
+        const sdk = new SDK({
+            public: createPublicClient({ chain: emulator.chain, transport: emulator.transport }),
+            wallet: createWalletClient({ chain: emulator.chain, account, transport: emulator.transport }),
+        }, { errorMode: "throw", logLevel: "silent", keyProvider: createKeyProvider({ symmetricKeys: [key] }) })
+
+        const value = defineSchema("uint256 value")
+        await (await sdk.streams.registerDataSchemas([{ schemaName: "value", schema: value.schema }])).wait()
+        const schemaId = await sdk.streams.computeSchemaId(value.schema)
+        const encrypted = await encryptData(payload, { symmetricKey: key })
+        await (await sdk.streams.set([
+            { id: toHex(1, { size: 32 }), schemaId, data: encrypted },
+            { id: toHex(2, { size: 32 }), schemaId, data: slice(encrypted, 0, 30) },
+            { id: toHex(3, { size: 32 }), schemaId, data: payload },
+        ])).wait()
+
+        const records = await sdk.streams.getBetweenRange(schemaId, account.address, BigInt(0), BigInt(3), { schema: value })
+        expect(records[0]).toEqual({ value: BigInt(42) })
+        expect(isEncryptedRecord(records[1]) && records[1].reason).toBe("malformed")
+        expect(records[2]).toEqual({ value: BigInt(42) })
+    })
+})
@@ -0,0 +1,332 @@
+import {
+    Address,
+    Hex,
+    bytesToHex,
+    concatHex,
+    getAddress,
+    hexToBytes,
+    isAddressEqual,
+    keccak256,
+    numberToHex,
+    size,
+} from "viem"
+import { publicKeyToAddress } from "viem/accounts"
+import { secp256k1 } from "@noble/curves/secp256k1"
+import { StreamsErrorCode, StreamsValidationError } from "@/services/errors"
+import { DataStream } from "@/types/streams"
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Source of the keys used to decrypt confidential payloads
+ * @dev Implement either or both methods, returning undefined for keys that are not held
+ */
+export interface KeyProvider {
+    /**
+     * Symmetric key whose id (keccak256 of the key) was recorded in the payload
+     */
+    getSymmetricKey?(keyId: Hex): MaybePromise<Hex | undefined>
+    /**
+     * secp256k1 private key of a recipient the payload was encrypted to
+     */
+    getPrivateKey?(recipient: Address): MaybePromise<Hex | undefined>
+}
+
+/**
+ * How a payload is encrypted
+ * @param symmetricKey 32 byte AES-256-GCM key shared with every authorised reader
+ * @param recipients secp256k1 public keys (compressed or uncompressed) of the wallets that may decrypt the payload
+ */
+export type EncryptionOptions =
+    | { symmetricKey: Hex }
+    | { recipients: Hex[] }
+
+/**
+ * Stand-in returned by reads for a payload that is encrypted and could not be decrypted
+ * @param reason no-key when no matching key is available, invalid-key when a key was found but decryption failed,
+ * malformed when the envelope is truncated
+ * @param scheme Symmetric key or ECIES to recipient wallet keys
+ * @param keyIds Symmetric key id or recipient addresses that can decrypt the payload
+ * @param data Encrypted payload as stored on-chain
+ */
+export type EncryptedRecord = {
+    encrypted: true
+    reason: "no-key" | "invalid-key" | "malformed"
+    scheme: "symmetric" | "ecies"
+    keyIds: Hex[]
+    data: Hex
+}
+
+// "SDX" followed by the envelope version
+export const ENCRYPTION_MAGIC: Hex = "0x53445801"
+
+enum EncryptionScheme {
+    Symmetric = 1,
+    Ecies = 2,
+}
+
+const MAGIC_SIZE = 4
+const IV_SIZE = 12
+const KEY_SIZE = 32
+const KEY_ID_SIZE = 32
+const TAG_SIZE = 16
+const EPHEMERAL_KEY_SIZE = 33
+const RECIPIENT_SIZE = 20 + IV_SIZE + KEY_SIZE + TAG_SIZE
+const ECIES_INFO = new TextEncoder().encode("somnia-data-streams-ecies")
+
+function toBuffer(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+    return new Uint8Array(bytes)
+}
+
+async function aesGcm(
+    mode: "encrypt" | "decrypt",
+    key: Uint8Array,
+    iv: Uint8Array,
+    data: Uint8Array,
+    additionalData?: Uint8Array
+): Promise<Uint8Array> {
+    if (key.length !== KEY_SIZE) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Encryption keys must be ${KEY_SIZE} bytes`)
+    }
+    const cryptoKey = await crypto.subtle.importKey("raw", toBuffer(key), "AES-GCM", false, [mode])
+    const params: AesGcmParams = { name: "AES-GCM", iv: toBuffer(iv) }
+    if (additionalData) {
+        params.additionalData = toBuffer(additionalData)
+    }
+    const output = mode === "encrypt"
+        ? await crypto.subtle.encrypt(params, cryptoKey, toBuffer(data))
+        : await crypto.subtle.decrypt(params, cryptoKey, toBuffer(data))
+    return new Uint8Array(output)
+}
+
+/**
+ * Derive the key wrapping key for a recipient from the x coordinate of the ECDH shared point
+ */
+async function deriveWrappingKey(privateKey: Uint8Array, publicKey: Uint8Array, ephemeralPublicKey: Uint8Array): Promise<Uint8Array> {
+    const sharedSecret = secp256k1.getSharedSecret(privateKey, publicKey, true).slice(1)
+    const hkdfKey = await crypto.subtle.importKey("raw", toBuffer(sharedSecret), "HKDF", false, ["deriveBits"])
+    const bits = await crypto.subtle.deriveBits(
+        { name: "HKDF", hash: "SHA-256", salt: toBuffer(ephemeralPublicKey), info: toBuffer(ECIES_INFO) },
+        hkdfKey,
+        KEY_SIZE * 8
+    )
+    return new Uint8Array(bits)
+}
+
+function recipientAddress(publicKey: Uint8Array): Address {
+    return publicKeyToAddress(bytesToHex(secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false)))
+}
+
+function randomBytes(length: number): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(length))
+}
+
+/**
+ * Identifier recorded in payloads encrypted with a symmetric key so that readers can look the key up
+ * @param symmetricKey 32 byte symmetric key
+ * @returns keccak256 of the key
+ */
+export function symmetricKeyId(symmetricKey: Hex): Hex {
+    return keccak256(symmetricKey)
+}
+
+/**
+ * Generate a random 32 byte symmetric key
+ */
+export function generateSymmetricKey(): Hex {
+    return bytesToHex(randomBytes(KEY_SIZE))
+}
+
+/**
+ * Key provider backed by keys held in memory
+ * @param keys Symmetric keys and recipient private keys available for decryption
+ * @returns Key provider resolving key ids and recipient addresses to the supplied keys
+ */
+export function createKeyProvider(keys: { symmetricKeys?: Hex[], privateKeys?: Hex[] }): KeyProvider {
+    const symmetricKeys = new Map((keys.symmetricKeys ?? []).map((key) => [symmetricKeyId(key).toLowerCase(), key]))
+    const privateKeys = (keys.privateKeys ?? []).map((key) => ({
+        address: recipientAddress(secp256k1.getPublicKey(hexToBytes(key), true)),
+        key,
+    }))
+
+    return {
+        getSymmetricKey: (keyId) => symmetricKeys.get(keyId.toLowerCase()),
+        getPrivateKey: (recipient) => privateKeys.find(({ address }) => isAddressEqual(address, recipient))?.key,
+    }
+}
+
+/**
+ * Check for the envelope written by encryptData
+ * @dev Detection relies on the magic prefix alone, so plain data whose first bytes happen to be 0x53445801 (for example
+ * a bytes32 or a very large uint256 as the first schema field) is read as an envelope and returned as an encrypted record
+ * @param data Raw bytes of a data stream
+ * @returns Whether the payload is encrypted
+ */
+export function isEncryptedData(data: Hex): boolean {
+    return size(data) > MAGIC_SIZE && data.toLowerCase().startsWith(ENCRYPTION_MAGIC)
+}
+
+/**
+ * Type guard for the stand-in returned by reads when a payload cannot be decrypted
+ */
+export function isEncryptedRecord(value: unknown): value is EncryptedRecord {
+    return typeof value === "object" && value !== null && (value as EncryptedRecord).encrypted === true
+}
+
+/**
+ * Encrypt a payload with AES-256-GCM, either under a shared symmetric key or a random key wrapped for each recipient (ECIES)
+ * @param data Payload to encrypt, typically SchemaEncoder output
+ * @param options Symmetric key or recipient public keys
+ * @returns Envelope recording how the payload can be decrypted followed by the ciphertext
+ */
+export async function encryptData(data: Hex, options: EncryptionOptions): Promise<Hex> {
+    let header: Hex
+    let contentKey: Uint8Array
+
+    if ("symmetricKey" in options) {
+        contentKey = hexToBytes(options.symmetricKey)
+        header = concatHex([
+            ENCRYPTION_MAGIC,
+            numberToHex(EncryptionScheme.Symmetric, { size: 1 }),
+            symmetricKeyId(options.symmetricKey),
+        ])
+    } else {
+        if (options.recipients.length === 0 || options.recipients.length > 255) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "Payloads must be encrypted to between 1 and 255 recipients")
+        }
+
+        contentKey = randomBytes(KEY_SIZE)
+        const ephemeralPrivateKey = secp256k1.utils.randomPrivateKey()
+        const ephemeralPublicKey = secp256k1.getPublicKey(ephemeralPrivateKey, true)
+        const recipients = await Promise.all(options.recipients.map(async (recipient) => {
+            const publicKey = hexToBytes(recipient)
+            const iv = randomBytes(IV_SIZE)
+            const wrappingKey = await deriveWrappingKey(ephemeralPrivateKey, publicKey, ephemeralPublicKey)
+            return concatHex([
+                recipientAddress(publicKey),
+                bytesToHex(iv),
+                bytesToHex(await aesGcm("encrypt", wrappingKey, iv, contentKey)),
+            ])
+        }))
+
+        header = concatHex([
+            ENCRYPTION_MAGIC,
+            numberToHex(EncryptionScheme.Ecies, { size: 1 }),
+            bytesToHex(ephemeralPublicKey),
+            numberToHex(recipients.length, { size: 1 }),
+            ...recipients,
+        ])
+    }
+
+    // The header is authenticated alongside the payload so that it cannot be altered without detection
+    const iv = randomBytes(IV_SIZE)
+    const ciphertext = await aesGcm("encrypt", contentKey, iv, hexToBytes(data), hexToBytes(header))
+    return concatHex([header, bytesToHex(iv), bytesToHex(ciphertext)])
+}
+
+/**
+ * Decrypt a payload written by encryptData
+ * @dev Payloads without the envelope are returned unchanged, truncated envelopes are returned as malformed encrypted records
+ * @param data Raw bytes of a data stream
+ * @param keyProvider Source of the keys that may decrypt the payload
+ * @returns The decrypted payload, or an encrypted record when no key is available or decryption fails
+ */
+export async function decryptData(data: Hex, keyProvider?: KeyProvider): Promise<Hex | EncryptedRecord> {
+    if (!isEncryptedData(data)) {
+        return data
+    }
+
+    const bytes = hexToBytes(data)
+    const scheme = bytes[MAGIC_SIZE]
+    if (scheme !== EncryptionScheme.Symmetric && scheme !== EncryptionScheme.Ecies) {
+        // Unknown envelope versions cannot be parsed so the data is treated as a plain payload
+        return data
+    }
+
+    const record: EncryptedRecord = {
+        encrypted: true,
+        reason: "no-key",
+        scheme: scheme === EncryptionScheme.Symmetric ? "symmetric" : "ecies",
+        keyIds: [],
+        data,
+    }
+    // Lengths are checked before every slice so that a truncated envelope fails this record alone rather than the read
+    const fits = (offset: number, length: number) => offset + length <= bytes.length
+
+    let offset = MAGIC_SIZE + 1
+    let contentKey: Uint8Array | undefined
+    let failed = false
+
+    if (scheme === EncryptionScheme.Symmetric) {
+        if (!fits(offset, KEY_ID_SIZE)) {
+            return { ...record, reason: "malformed" }
+        }
+        const keyId = bytesToHex(bytes.slice(offset, offset + KEY_ID_SIZE))
+        offset += KEY_ID_SIZE
+        record.keyIds = [keyId]
+
+        const key = await keyProvider?.getSymmetricKey?.(keyId)
+        contentKey = key ? hexToBytes(key) : undefined
+    } else {
+        if (!fits(offset, EPHEMERAL_KEY_SIZE + 1)) {
+            return { ...record, reason: "malformed" }
+        }
+        const ephemeralPublicKey = bytes.slice(offset, offset + EPHEMERAL_KEY_SIZE)
+        offset += EPHEMERAL_KEY_SIZE
+        const count = bytes[offset]
+        offset += 1
+        if (!fits(offset, count * RECIPIENT_SIZE)) {
+            return { ...record, reason: "malformed" }
+        }
+
+        for (let i = 0; i < count; i++) {
+            const entry = bytes.slice(offset, offset + RECIPIENT_SIZE)
+            offset += RECIPIENT_SIZE
+            const address = getAddress(bytesToHex(entry.slice(0, 20)))
+            record.keyIds.push(address)
+            if (contentKey) {
+                continue
+            }
+
+            const privateKey = await keyProvider?.getPrivateKey?.(address)
+            if (!privateKey) {
+                continue
+            }
+            try {
+                const wrappingKey = await deriveWrappingKey(hexToBytes(privateKey), ephemeralPublicKey, ephemeralPublicKey)
+                contentKey = await aesGcm("decrypt", wrappingKey, entry.slice(20, 20 + IV_SIZE), entry.slice(20 + IV_SIZE))
+            } catch {
+                failed = true
+            }
+        }
+    }
+
+    // The ciphertext carries at least the authentication tag
+    if (!fits(offset, IV_SIZE + TAG_SIZE)) {
+        return { ...record, reason: "malformed" }
+    }
+    if (!contentKey) {
+        return failed ? { ...record, reason: "invalid-key" } : record
+    }
+
+    try {
+        const iv = bytes.slice(offset, offset + IV_SIZE)
+        const plaintext = await aesGcm("decrypt", contentKey, iv, bytes.slice(offset + IV_SIZE), bytes.slice(0, offset))
+        return bytesToHex(plaintext)
+    } catch {
+        return { ...record, reason: "invalid-key" }
+    }
+}
+
+/**
+ * Encrypt the payload of every data stream
+ * @param dataStreams Data streams about to be written
+ * @param options Symmetric key or recipient public keys
+ * @returns Data streams with encrypted payloads
+ */
+export async function encryptDataStreams(dataStreams: DataStream[], options: EncryptionOptions): Promise<DataStream[]> {
+    return Promise.all(dataStreams.map(async (dataStream) => ({
+        ...dataStream,
+        data: await encryptData(dataStream.data, options),
+    })))
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import {
+    Abi,
+    ContractFunctionExecutionError,
+    ContractFunctionRevertedError,
+    encodeErrorResult,
+    HttpRequestError,
+    pad,
+    TimeoutError,
+} from "viem"
+import { StreamsABI } from "@/services/smart-contracts/abi/Streams"
+import {
+    StreamsContractError,
+    StreamsError,
+    StreamsErrorCode,
+    StreamsTransportError,
+    StreamsValidationError,
+    toStreamsError,
+} from "."
+
+type AbiError = Extract<Abi[number], { type: "error" }>
+
+const address = "0x52908400098527886E0F7030069857D2E4169EE7"
+const call = { functionName: "totalPublisherDataForSchema", args: [pad("0x01"), address] }
+
+// A sample value for every argument type used by the custom errors of the Streams contract
+function sampleArgs(error: AbiError): unknown[] {
+    return error.inputs.map((input) => input.type === "address" ? address : pad("0x01"))
+}
+
+describe("toStreamsError", () => {
+    it("decodes every custom error of the Streams contract into its code", async () => {
+        const abi = await StreamsABI()
+        const errors = abi.filter((item): item is AbiError => item.type === "error")
+        expect(errors).toHaveLength(31)
+
+        for (const error of errors) {
+            const data = encodeErrorResult({ abi: [error], errorName: error.name, args: sampleArgs(error) })
+            const reverted = new ContractFunctionRevertedError({ abi, data, functionName: call.functionName })
+            const wrapped = new ContractFunctionExecutionError(reverted, { abi, ...call })
+
+            const decoded = toStreamsError(wrapped, { method: "set", args: [] })
+            expect(decoded).toBeInstanceOf(StreamsContractError)
+            expect(decoded).toMatchObject({ code: error.name, errorName: error.name, method: "set", cause: wrapped })
+            expect((decoded as StreamsContractError).errorArgs ?? []).toEqual(sampleArgs(error))
+        }
+    })
+
+    it("has a code for every custom error and nothing else in the contract group", async () => {
+        const abi = await StreamsABI()
+        const names = abi.filter((item): item is AbiError => item.type === "error").map((error) => error.name)
+        const sdkCodes = ["ContractReverted", "InvalidArgument", "InvalidAddress", "WalletNotConnected", "SchemaLineageTooDeep", "UnsupportedChain", "Transport", "Unknown"]
+        expect(Object.values(StreamsErrorCode).filter((code) => !sdkCodes.includes(code)).sort()).toEqual([...names].sort())
+    })
+
+    it("falls back to a generic revert for errors the contract does not define", async () => {
+        const abi = await StreamsABI()
+        const reverted = new ContractFunctionRevertedError({ abi, data: "0x12345678", functionName: call.functionName })
+        expect(toStreamsError(reverted)).toMatchObject({ code: StreamsErrorCode.ContractReverted })
+        expect(toStreamsError(reverted)).toBeInstanceOf(StreamsContractError)
+    })
+
+    it("classifies transport failures and anything else", () => {
+        const http = new HttpRequestError({ url: "http://localhost:8545", details: "socket hang up" })
+        expect(toStreamsError(http)).toBeInstanceOf(StreamsTransportError)
+        expect(toStreamsError(new TimeoutError({ body: {}, url: "http://localhost:8545" }))).toMatchObject({ code: StreamsErrorCode.Transport })
+        expect(toStreamsError(new Error("boom"))).toMatchObject({ code: StreamsErrorCode.Unknown, message: "boom" })
+        expect(toStreamsError("boom")).toMatchObject({ code: StreamsErrorCode.Unknown, message: "boom" })
+    })
+
+    it("keeps the context of the innermost call", () => {
+        const inner = new StreamsValidationError(StreamsErrorCode.InvalidArgument, "bad", { method: "getByKey" })
+        const outer = toStreamsError(inner, { method: "stream.get", args: [1] })
+        expect(outer).toBe(inner)
+        expect(outer).toMatchObject({ method: "getByKey", args: [1], hint: undefined })
+        expect(new StreamsError(StreamsErrorCode.NoData, "empty").hint).toMatch(/No data/)
+    })
+})
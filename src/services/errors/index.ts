@@ -0,0 +1,231 @@
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    HttpRequestError,
+    RpcRequestError,
+    TimeoutError,
+    WebSocketRequestError,
+} from "viem"
+
+/**
+ * Discriminant for every error surfaced by the SDK
+ * @dev The first group mirrors the custom errors of the Streams contract, the second group originates in the SDK
+ */
+export enum StreamsErrorCode {
+    // Streams contract custom errors
+    AddressEmptyCode = "AddressEmptyCode",
+    ERC1967InvalidImplementation = "ERC1967InvalidImplementation",
+    ERC1967NonPayable = "ERC1967NonPayable",
+    EventSchemaAlreadyRegistered = "EventSchemaAlreadyRegistered",
+    EventSchemaNotRegistered = "EventSchemaNotRegistered",
+    EventTopicAlreadyRegistered = "EventTopicAlreadyRegistered",
+    FailedCall = "FailedCall",
+    IncorrectNumberOfTopics = "IncorrectNumberOfTopics",
+    InvalidDataLength = "InvalidDataLength",
+    InvalidIndex = "InvalidIndex",
+    InvalidInitialization = "InvalidInitialization",
+    InvalidRange = "InvalidRange",
+    InvalidSelfReference = "InvalidSelfReference",
+    InvalidSize = "InvalidSize",
+    InvalidTopic = "InvalidTopic",
+    MaxArrayLengthExceeded = "MaxArrayLengthExceeded",
+    NameAlreadyUsed = "NameAlreadyUsed",
+    NoCalldata = "NoCalldata",
+    NoData = "NoData",
+    NotInitializing = "NotInitializing",
+    OwnableInvalidOwner = "OwnableInvalidOwner",
+    OwnableUnauthorizedAccount = "OwnableUnauthorizedAccount",
+    ParentSchemaNotRegistered = "ParentSchemaNotRegistered",
+    SchemaAlreadyRegistered = "SchemaAlreadyRegistered",
+    SchemaNotRegistered = "SchemaNotRegistered",
+    TooManyIndexedParams = "TooManyIndexedParams",
+    TooManyTopics = "TooManyTopics",
+    UUPSUnauthorizedCallContext = "UUPSUnauthorizedCallContext",
+    UUPSUnsupportedProxiableUUID = "UUPSUnsupportedProxiableUUID",
+    Unauthorized = "Unauthorized",
+    ZeroValue = "ZeroValue",
+
+    // SDK errors
+    ContractReverted = "ContractReverted",
+    InvalidArgument = "InvalidArgument",
+    InvalidAddress = "InvalidAddress",
+    WalletNotConnected = "WalletNotConnected",
+    SchemaLineageTooDeep = "SchemaLineageTooDeep",
+    UnsupportedChain = "UnsupportedChain",
+    Transport = "Transport",
+    Unknown = "Unknown",
+}
+
+const HINTS: Partial<Record<StreamsErrorCode, string>> = {
+    [StreamsErrorCode.EventSchemaAlreadyRegistered]: "An event schema with this id already exists - pick a new id or reuse the registered schema",
+    [StreamsErrorCode.EventSchemaNotRegistered]: "Register the event schema with registerEventSchemas before emitting or managing it",
+    [StreamsErrorCode.EventTopicAlreadyRegistered]: "The event topic is already bound to another event id - look it up with eventIdFromTopic",
+    [StreamsErrorCode.IncorrectNumberOfTopics]: "The number of argumentTopics must equal the number of indexed params in the registered event schema",
+    [StreamsErrorCode.InvalidDataLength]: "The supplied data does not have the length expected by the contract",
+    [StreamsErrorCode.InvalidIndex]: "The index is out of bounds - check totalPublisherDataForSchema before reading by index",
+    [StreamsErrorCode.InvalidRange]: "The start index must be lower than the end index and the end index must not exceed the total data published",
+    [StreamsErrorCode.InvalidSelfReference]: "A schema cannot be its own parent or ancestor",
+    [StreamsErrorCode.InvalidSize]: "The supplied value exceeds the size supported by the contract",
+    [StreamsErrorCode.InvalidTopic]: "The event topic must be a non zero bytes32 value (supply an event signature to have it computed)",
+    [StreamsErrorCode.MaxArrayLengthExceeded]: "Too many items were supplied in one call - split the batch into smaller chunks",
+    [StreamsErrorCode.NameAlreadyUsed]: "The schema name is taken - pick another name or look up the existing schema with schemaNameToSchemaId",
+    [StreamsErrorCode.NoCalldata]: "The call requires at least one item",
+    [StreamsErrorCode.NoData]: "No data has been published for this schema and publisher",
+    [StreamsErrorCode.OwnableUnauthorizedAccount]: "Only the protocol owner can perform this action",
+    [StreamsErrorCode.ParentSchemaNotRegistered]: "Register the parent schema before registering schemas that extend it",
+    [StreamsErrorCode.SchemaAlreadyRegistered]: "The schema is already registered - pass ignoreRegisteredSchemas to skip it",
+    [StreamsErrorCode.SchemaNotRegistered]: "Register the data schema with registerDataSchemas before publishing or reading data for it",
+    [StreamsErrorCode.TooManyIndexedParams]: "EVM logs support at most 3 indexed params in addition to the event topic",
+    [StreamsErrorCode.TooManyTopics]: "Too many argumentTopics were supplied for the event",
+    [StreamsErrorCode.Unauthorized]: "The sending wallet is not an authorised emitter - use manageEventEmittersForRegisteredStreamsEvent or open emission",
+    [StreamsErrorCode.ZeroValue]: "A required value was zero",
+    [StreamsErrorCode.InvalidAddress]: "Supply a valid, non zero EVM address",
+    [StreamsErrorCode.WalletNotConnected]: "Supply a wallet client with an account when constructing the SDK to send transactions",
+    [StreamsErrorCode.SchemaLineageTooDeep]: "The schema extends too many ancestors to be resolved",
+    [StreamsErrorCode.UnsupportedChain]: "Connect to a supported chain or supply the Streams contract address with the contractAddresses option or registerChain",
+    [StreamsErrorCode.Transport]: "The RPC request failed - check connectivity to the node and retry",
+}
+
+/**
+ * Context recorded against an error describing the SDK call that failed
+ * @param method Name of the SDK method
+ * @param args Arguments the method was called with
+ * @param functionName Contract function the SDK method was calling when it failed
+ */
+export type StreamsErrorContext = {
+    method?: string
+    args?: unknown[]
+    functionName?: string
+}
+
+/**
+ * Base class of every error returned or thrown by the SDK
+ */
+export class StreamsError extends Error {
+    readonly code: StreamsErrorCode
+    readonly hint?: string
+    method?: string
+    args?: unknown[]
+    functionName?: string
+    override readonly cause?: unknown
+
+    constructor(code: StreamsErrorCode, message: string, options: StreamsErrorContext & { cause?: unknown } = {}) {
+        super(message)
+        this.name = "StreamsError"
+        this.code = code
+        this.hint = HINTS[code]
+        this.method = options.method
+        this.args = options.args
+        this.functionName = options.functionName
+        this.cause = options.cause
+    }
+}
+
+/**
+ * The Streams contract reverted the call
+ * @param errorName Name of the contract custom error if one was decoded
+ * @param errorArgs Arguments of the contract custom error
+ */
+export class StreamsContractError extends StreamsError {
+    readonly errorName?: string
+    readonly errorArgs?: readonly unknown[]
+
+    constructor(
+        code: StreamsErrorCode,
+        message: string,
+        options: StreamsErrorContext & { cause?: unknown, errorName?: string, errorArgs?: readonly unknown[] } = {}
+    ) {
+        super(code, message, options)
+        this.name = "StreamsContractError"
+        this.errorName = options.errorName
+        this.errorArgs = options.errorArgs
+    }
+}
+
+/**
+ * Arguments supplied to the SDK were rejected before reaching the chain
+ */
+export class StreamsValidationError extends StreamsError {
+    constructor(code: StreamsErrorCode, message: string, options: StreamsErrorContext & { cause?: unknown } = {}) {
+        super(code, message, options)
+        this.name = "StreamsValidationError"
+    }
+}
+
+/**
+ * A transaction could not be sent because no usable wallet client is connected
+ */
+export class StreamsWalletError extends StreamsError {
+    constructor(message: string, options: StreamsErrorContext & { cause?: unknown } = {}) {
+        super(StreamsErrorCode.WalletNotConnected, message, options)
+        this.name = "StreamsWalletError"
+    }
+}
+
+/**
+ * The RPC request failed before the node returned a result
+ */
+export class StreamsTransportError extends StreamsError {
+    constructor(message: string, options: StreamsErrorContext & { cause?: unknown } = {}) {
+        super(StreamsErrorCode.Transport, message, options)
+        this.name = "StreamsTransportError"
+    }
+}
+
+function isContractErrorCode(errorName: string): errorName is StreamsErrorCode {
+    return Object.prototype.hasOwnProperty.call(StreamsErrorCode, errorName)
+}
+
+/**
+ * Convert anything caught from viem or the SDK into a StreamsError with the failing call recorded against it
+ * @param e The caught value
+ * @param context The SDK method and arguments that failed
+ * @returns A StreamsError subclass matching the failure
+ */
+export function toStreamsError(e: unknown, context: StreamsErrorContext = {}): StreamsError {
+    if (e instanceof StreamsError) {
+        // Keep the context of the innermost SDK call that failed
+        e.method = e.method ?? context.method
+        e.args = e.args ?? context.args
+        e.functionName = e.functionName ?? context.functionName
+        return e
+    }
+
+    if (e instanceof BaseError) {
+        const revertError = e.walk(
+            (err) => err instanceof ContractFunctionRevertedError,
+        )
+        if (revertError instanceof ContractFunctionRevertedError) {
+            const errorName = revertError.data?.errorName
+            const code = errorName && isContractErrorCode(errorName) ? errorName : StreamsErrorCode.ContractReverted
+            return new StreamsContractError(
+                code,
+                errorName ?? revertError.reason ?? revertError.shortMessage,
+                {
+                    ...context,
+                    cause: e,
+                    errorName,
+                    errorArgs: revertError.data?.args,
+                }
+            )
+        }
+
+        const transportError = e.walk(
+            (err) => err instanceof HttpRequestError
+                || err instanceof WebSocketRequestError
+                || err instanceof TimeoutError
+                || err instanceof RpcRequestError
+        )
+        if (transportError) {
+            return new StreamsTransportError(e.shortMessage, { ...context, cause: e })
+        }
+
+        return new StreamsError(StreamsErrorCode.Unknown, e.shortMessage, { ...context, cause: e })
+    }
+
+    if (e instanceof Error) {
+        return new StreamsError(StreamsErrorCode.Unknown, e.message, { ...context, cause: e })
+    }
+
+    return new StreamsError(StreamsErrorCode.Unknown, String(e), { ...context, cause: e })
+}
\ No newline at end of file
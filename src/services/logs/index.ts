@@ -1,16 +1,104 @@
-import { BaseError, ContractFunctionRevertedError } from "viem"
-
-export function maybeLogContractError(e: unknown, context: string): Error | null {
-    let error: Error | null = null
-    if (e instanceof BaseError) {
-        const revertError = e.walk(
-            (err) => err instanceof ContractFunctionRevertedError,
-        )
-        if (revertError instanceof ContractFunctionRevertedError) {
-            const errorName = revertError.data?.errorName ?? "UnknownError"
-            console.log({ errorType: "Contract Error", context, errorName })
-            error = new Error(errorName)
-        }
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent"
+
+/**
+ * Structured fields attached to SDK log entries
+ * @param method SDK method that produced the entry
+ * @param chainId Chain the SDK is connected to
+ * @param contractAddress Address of the Streams protocol contract
+ * @param schemaId Schema involved in the call
+ * @param publisher Publisher involved in the call
+ */
+export type LogContext = {
+    method?: string
+    chainId?: number
+    contractAddress?: string
+    schemaId?: string
+    publisher?: string
+    [key: string]: unknown
+}
+
+/**
+ * Logger consumed by the SDK for all of its diagnostics
+ */
+export interface Logger {
+    debug(message: string, context?: LogContext): void
+    info(message: string, context?: LogContext): void
+    warn(message: string, context?: LogContext): void
+    error(message: string, context?: LogContext): void
+}
+
+/**
+ * Loggers such as pino and bunyan that take the structured fields first i.e. logger.info({ ... }, "message")
+ */
+export type ObjectFirstLogger = Record<Exclude<LogLevel, "silent">, (context: object, message: string) => void>
+
+/**
+ * Loggers such as winston, loglevel and console that take the message first i.e. logger.info("message", { ... })
+ */
+export type MessageFirstLogger = Record<Exclude<LogLevel, "silent">, (message: string, context?: object) => void>
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3,
+    silent: 4,
+}
+
+/**
+ * Drop entries below a minimum level before they reach a logger
+ * @param logger Logger receiving the entries
+ * @param level Minimum level that is forwarded
+ * @returns Filtered logger
+ */
+export function withLogLevel(logger: Logger, level: LogLevel): Logger {
+    const enabled = (entryLevel: LogLevel) => LOG_LEVEL_PRIORITY[entryLevel] >= LOG_LEVEL_PRIORITY[level]
+    return {
+        debug: (message, context) => enabled("debug") && logger.debug(message, context),
+        info: (message, context) => enabled("info") && logger.info(message, context),
+        warn: (message, context) => enabled("warn") && logger.warn(message, context),
+        error: (message, context) => enabled("error") && logger.error(message, context),
     }
-    return error
+}
+
+/**
+ * Adapt a logger that takes the structured fields before the message (pino, bunyan)
+ */
+export function fromObjectFirstLogger(logger: ObjectFirstLogger): Logger {
+    return {
+        debug: (message, context = {}) => logger.debug(context, message),
+        info: (message, context = {}) => logger.info(context, message),
+        warn: (message, context = {}) => logger.warn(context, message),
+        error: (message, context = {}) => logger.error(context, message),
+    }
+}
+
+/**
+ * Adapt a logger that takes the message before the structured fields (winston, loglevel, console)
+ */
+export function fromMessageFirstLogger(logger: MessageFirstLogger): Logger {
+    return {
+        debug: (message, context) => context ? logger.debug(message, context) : logger.debug(message),
+        info: (message, context) => context ? logger.info(message, context) : logger.info(message),
+        warn: (message, context) => context ? logger.warn(message, context) : logger.warn(message),
+        error: (message, context) => context ? logger.error(message, context) : logger.error(message),
+    }
+}
+
+/**
+ * Logger that writes to the console, used when no logger is injected
+ * @param level Minimum level that is written (defaults to warn)
+ */
+export function createConsoleLogger(level: LogLevel = "warn"): Logger {
+    return withLogLevel(fromMessageFirstLogger(console), level)
+}
+
+/**
+ * Logger that discards every entry
+ */
+export const silentLogger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
 }
\ No newline at end of file
@@ -1,18 +1,16 @@
 import { StreamsABI } from "./Streams"
 import { ContractRef, KnownContracts } from "@/types"
+import { StreamsErrorCode, StreamsValidationError } from "@/services/errors"
 import { isAddress } from "viem"
 
 export async function getABI(ref: ContractRef) {
-    if (ref.internal) {
-        switch (ref.internal) {
-            case KnownContracts.STREAMS:
-                return StreamsABI()
-        }
-    } else if (ref.address) {
-        // Future: resolve ABI from Etherbase
-        if (!isAddress(ref.address, { strict: false })) {
-            throw new Error("Invalid address supplied")
-        }
-        throw new Error("Feature not implemented")
+    if (ref.address && !isAddress(ref.address, { strict: false })) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidAddress, "Invalid address supplied")
+    }
+
+    // Refs that only carry an address point at a deployment of the Streams contract, the only contract the SDK talks to
+    switch (ref.internal ?? KnownContracts.STREAMS) {
+        case KnownContracts.STREAMS:
+            return StreamsABI()
     }
 }
\ No newline at end of file
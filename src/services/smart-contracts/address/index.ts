@@ -3,13 +3,26 @@ import {
     KnownContracts,
     ContractAddressByChain
 } from "@/types"
-import { Chains } from "@/services/smart-contracts/constants"
+import { Chains, chainIdName } from "@/services/smart-contracts/constants"
+import { StreamsErrorCode, StreamsValidationError } from "@/services/errors"
 import {
     isAddress,
     Address,
     getAddress,
 } from "viem"
 
+/**
+ * A chain the SDK can connect to
+ * @param chainId EVM chain id
+ * @param name Human readable name used in error messages
+ * @param contracts Address of each protocol contract deployed on the chain
+ */
+export type ChainRegistration = {
+    chainId: number
+    name: string
+    contracts: Partial<Record<KnownContracts, Address>>
+}
+
 const STREAMS_LIBRARY_BY_CHAIN: ContractAddressByChain = {
     [Chains.SomniaMainnet]: getAddress(
         "0x7EF39B35f80F14b2eE479248d27b5014C1C64AD0"
@@ -19,18 +32,78 @@ const STREAMS_LIBRARY_BY_CHAIN: ContractAddressByChain = {
     ),
 }
 
+// Seeded with the Somnia deployments and extended at runtime by registerChain
 const KnownContractsByChain: Record<KnownContracts, Record<string, Address>> = {
-    [KnownContracts.STREAMS]: STREAMS_LIBRARY_BY_CHAIN,
+    [KnownContracts.STREAMS]: { ...STREAMS_LIBRARY_BY_CHAIN },
+}
+const ChainNames: Record<string, string> = { ...chainIdName }
+
+/**
+ * Validate a chain registration without registering it
+ * @param chain Chain id, name and contract addresses
+ * @returns The checksummed address of each contract
+ */
+export function validateChainRegistration(chain: ChainRegistration): [KnownContracts, Address][] {
+    if (!Number.isInteger(chain.chainId) || chain.chainId <= 0) {
+        throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, "chainId must be a positive integer")
+    }
+
+    const addresses = Object.entries(chain.contracts) as [KnownContracts, Address][]
+    for (const [contract, address] of addresses) {
+        if (!(contract in KnownContractsByChain)) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidArgument, `Unknown contract ${contract}`)
+        }
+        if (!isAddress(address, { strict: false })) {
+            throw new StreamsValidationError(StreamsErrorCode.InvalidAddress, `Invalid ${contract} address for chain ${chain.chainId}`)
+        }
+    }
+    return addresses.map(([contract, address]) => [contract, getAddress(address)])
+}
+
+/**
+ * Register a chain, or replace the contracts of a registered chain, for every SDK instance in the process
+ * @dev Use for local devnets, forks and private deployments of the protocol
+ * @param chain Chain id, name and contract addresses
+ */
+export function registerChain(chain: ChainRegistration): void {
+    const addresses = validateChainRegistration(chain)
+    ChainNames[chain.chainId.toString()] = chain.name
+    for (const [contract, address] of addresses) {
+        KnownContractsByChain[contract][chain.chainId.toString()] = address
+    }
+}
+
+/**
+ * Chains with a known deployment of a protocol contract
+ * @param contract Protocol contract, defaults to the Streams contract
+ * @returns Chain id and name of every chain the contract is deployed on
+ */
+export function getSupportedChains(contract: KnownContracts = KnownContracts.STREAMS): { chainId: number, name: string }[] {
+    return Object.keys(KnownContractsByChain[contract]).map((chainId) => ({
+        chainId: Number(chainId),
+        name: ChainNames[chainId] ?? `Chain ${chainId}`,
+    }))
+}
+
+/**
+ * Address of a protocol contract on a registered chain
+ * @param contract Protocol contract
+ * @param chainId EVM chain id
+ * @returns The registered address or undefined when the contract is not known on the chain
+ */
+export function getKnownContractAddress(contract: KnownContracts, chainId: number): Address | undefined {
+    return KnownContractsByChain[contract][chainId.toString()]
 }
 
 export async function getContractAddress(ref: ContractRef): Promise<Address | null> {
-    if (ref.internal && ref.chainId) {
-        return KnownContractsByChain[ref.internal][ref.chainId.toString()] ?? null
-    } else if (ref.address) {
+    // An explicit address takes precedence over the known deployments so that any deployment can be targeted
+    if (ref.address) {
         if (!isAddress(ref.address, { strict: false })) {
-            throw new Error("Invalid address supplied")
+            throw new StreamsValidationError(StreamsErrorCode.InvalidAddress, "Invalid address supplied")
         }
-        return ref.address!
+        return ref.address
+    } else if (ref.internal && ref.chainId) {
+        return getKnownContractAddress(ref.internal, ref.chainId) ?? null
     }
     return null
 }
\ No newline at end of file
@@ -1,9 +1,12 @@
-import { getContractAddress } from "@/services/smart-contracts/address/index"
+import { getContractAddress, getSupportedChains } from "@/services/smart-contracts/address/index"
 import { getABI } from "@/services/smart-contracts/abi/index"
-import { ContractRef } from "@/types"
+import { StreamsErrorCode, StreamsValidationError } from "@/services/errors"
+import { ContractRef, KnownContracts } from "@/types"
 import { contractRefToString } from "@/types/utils"
 import { isAddress, Abi, Address, isAddressEqual, zeroAddress } from "viem"
 
+export { registerChain, validateChainRegistration, getSupportedChains, getKnownContractAddress, ChainRegistration } from "@/services/smart-contracts/address/index"
+
 export type ContractAddressAndAbi = {
     abi: Abi,
     address: Address,
@@ -17,11 +20,16 @@ export async function getContractAddressAndAbi(ref: ContractRef): Promise<Contra
 
     const address = await getContractAddress(ref)
     if (!address) {
-        throw new Error(`Unable to resolve contract address for ${contractRefToString(ref)}`)
+        const contract = ref.internal ?? KnownContracts.STREAMS
+        const supported = getSupportedChains(contract).map(({ chainId, name }) => `${name} (${chainId})`)
+        throw new StreamsValidationError(
+            StreamsErrorCode.UnsupportedChain,
+            `No ${contract} contract is known for chain ${ref.chainId}. Supported chains: ${supported.join(", ")}`
+        )
     }
 
     if (!isAddress(address, { strict: false })) {
-        throw new Error(`Invalid contract address for ${contractRefToString(ref)}`)
+        throw new StreamsValidationError(StreamsErrorCode.InvalidAddress, `Invalid contract address for ${contractRefToString(ref)}`)
     }
 
     if (isAddressEqual(address, zeroAddress)) {
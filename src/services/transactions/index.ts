@@ -0,0 +1,66 @@
+import {
+    Abi,
+    Address,
+    Hex,
+    TransactionReceipt,
+    isAddressEqual,
+    parseEventLogs,
+} from "viem"
+import { WriteResult } from "@/types/streams"
+
+/**
+ * Build a structured write result from a transaction receipt by decoding the Streams protocol logs it contains
+ * @param receipt Mined transaction receipt
+ * @param abi Protocol application binary interface used to decode the logs
+ * @param streamsProtocol Address of the protocol so that logs from other contracts are ignored
+ * @returns Receipt summary with the data stored and schemas registered by the transaction
+ */
+export function decodeStreamsReceipt(
+    receipt: TransactionReceipt,
+    abi: Abi,
+    streamsProtocol: Address
+): WriteResult {
+    const logs = parseEventLogs({
+        abi,
+        logs: receipt.logs.filter((log) => isAddressEqual(log.address, streamsProtocol)),
+    }) as { eventName: string, args: Record<string, unknown> }[]
+
+    const result: WriteResult = {
+        hash: receipt.transactionHash,
+        status: receipt.status,
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        gasUsed: receipt.gasUsed,
+        effectiveGasPrice: receipt.effectiveGasPrice,
+        storedData: [],
+        registeredDataSchemas: [],
+        registeredEventSchemas: [],
+        receipt,
+    }
+
+    for (const log of logs) {
+        switch (log.eventName) {
+            case "ESStoreEvent":
+                result.storedData.push({
+                    schemaId: log.args.schemaId as Hex,
+                    dataId: log.args.dataId as Hex,
+                    publisher: log.args.publisher as Address,
+                })
+                break
+            case "DataSchemaRegistered":
+                result.registeredDataSchemas.push({
+                    schemaId: log.args.schemaId as Hex,
+                    publisher: log.args.publisher as Address,
+                })
+                break
+            case "EventSchemaRegistered":
+                result.registeredEventSchemas.push({
+                    id: log.args.id as string,
+                    eventTopic: log.args.eventTopic as Hex,
+                })
+                break
+        }
+    }
+
+    return result
+}
\ No newline at end of file
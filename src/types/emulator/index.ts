@@ -0,0 +1,27 @@
+import { Address } from "viem"
+
+/**
+ * Options for an in-memory Streams protocol emulator
+ * @param chainId Chain id the emulator reports, defaults to the Somnia testnet so that the SDK resolves the protocol without configuration
+ * @param address Address the protocol is deployed at, defaults to the known deployment on the chain
+ * @param owner Owner of the protocol, allowed to manage every event schema
+ * @param accounts Accounts returned by eth_accounts, any account can send unsigned transactions through eth_sendTransaction
+ * @param blockGasLimit Gas limit of every block, transactions needing more are rejected
+ * @param baseFeePerGas Base fee of every block in wei
+ * @param maxPriorityFeePerGas Priority fee suggested by eth_maxPriorityFeePerGas in wei
+ * @param timestamp Timestamp of the genesis block in seconds, later blocks are one second apart
+ * @param maxArrayLength Maximum number of items the protocol accepts in a single write
+ * @param maxLogBlockRange Largest block range eth_getLogs accepts, unlimited when not set
+ */
+export type StreamsEmulatorOptions = {
+    chainId?: number
+    address?: Address
+    owner?: Address
+    accounts?: Address[]
+    blockGasLimit?: bigint
+    baseFeePerGas?: bigint
+    maxPriorityFeePerGas?: bigint
+    timestamp?: number
+    maxArrayLength?: number
+    maxLogBlockRange?: number
+}
\ No newline at end of file
@@ -2,8 +2,18 @@ import {
     Hex,
     Address,
     Abi,
+    TransactionReceipt,
 } from "viem"
-import { SchemaDecodedItem } from "@/modules/streams/encoder"
+import { SchemaDecodedItem, SchemaObject } from "@/modules/streams/encoder"
+import { SchemaRecord, TypedSchema } from "@/modules/streams/schema"
+import { CacheStorageAdapter, SchemaCache } from "@/services/cache"
+import { ChainRegistration } from "@/services/smart-contracts"
+import { StreamsError } from "@/services/errors"
+import { Logger, LogLevel } from "@/services/logs"
+import { EncryptedRecord, EncryptionOptions, KeyProvider } from "@/services/encryption"
+import type { Publisher } from "@/modules/streams/publisher"
+import type { StreamHandle } from "@/modules/streams/handle"
+import { StructuredKey } from "@/modules/streams/keys"
 
 export type EventParameter = {
     name: string
@@ -46,71 +56,722 @@ export type DataSchemaRegistration = {
     parentSchemaId?: Hex
 }
 
+/**
+ * A single schema within an inheritance chain
+ * @param schemaId Identifier of the schema
+ * @param schemaName Human readable name assigned at registration
+ * @param baseSchema Schema definition excluding any fields inherited from ancestors
+ * @param parentSchemaId Identifier of the parent schema or bytes32(0) for a root schema
+ */
+export type SchemaLineageEntry = {
+    schemaId: Hex
+    schemaName: string
+    baseSchema: string
+    parentSchemaId: Hex
+}
+
 export type LiteralSchema = string
 export type SchemaID = Hex
 export type SchemaReference = LiteralSchema | SchemaID
 
+/**
+ * Options applied when reading published data
+ * @param schema Typed schema used to decode the raw data locally into typed records instead of resolving the schema on-chain
+ * @param asObject Return plain records keyed by field name instead of SchemaDecodedItem arrays
+ * @param decompress Detect and decompress payloads that were written with compression (defaults to true)
+ */
+export type ReadOptions = {
+    schema?: TypedSchema<string>
+    asObject?: boolean
+    decompress?: boolean
+}
+
+/**
+ * Shape of the data returned by read methods which depends on the read options supplied
+ * @dev Encrypted payloads that cannot be decrypted with the configured key provider are returned as encrypted records
+ */
+export type ReadResult<O extends ReadOptions | undefined> = O extends { schema: TypedSchema<infer S> }
+    ? (SchemaRecord<S> | EncryptedRecord)[]
+    : O extends { asObject: true }
+        ? (Hex | EncryptedRecord)[] | (SchemaObject | EncryptedRecord)[]
+        : (Hex | EncryptedRecord)[] | (SchemaDecodedItem[] | EncryptedRecord)[]
+
+/**
+ * A single record of the data returned by read methods
+ */
+export type ReadRecord<O extends ReadOptions | undefined> = Awaited<ReadResult<O>[number]>
+
+/**
+ * Options applied when iterating over the history of a publisher
+ * @param pageSize Records read per call to the protocol (defaults to 100)
+ * @param from Index of the first record (inclusive, defaults to 0)
+ * @param to Index after the last record (exclusive, defaults to the number of records when iteration starts)
+ * @param reverse Iterate from the newest record to the oldest
+ */
+export type PageReadOptions = ReadOptions & {
+    pageSize?: number
+    from?: bigint | number
+    to?: bigint | number
+    reverse?: boolean
+}
+
+/**
+ * Options applied to reads batched through Multicall3
+ * @param batchSize Maximum calls per request, halved automatically when a request fails as a whole (defaults to 100)
+ */
+export type BulkReadOptions = ReadOptions & {
+    batchSize?: number
+}
+
+/**
+ * Outcome of a single item of a bulk read, so that one failure does not fail the rest of the batch
+ */
+export type BulkResult<T> =
+    | { status: "success", result: T }
+    | { status: "failure", error: StreamsError }
+
+/**
+ * Options for waiting on a sent transaction
+ * @param confirmations Number of blocks that must be mined on top of the transaction block (defaults to 1)
+ * @param timeout Milliseconds to wait before giving up on the receipt
+ */
+export type WaitOptions = {
+    confirmations?: number
+    timeout?: number
+}
+
+/**
+ * Data written by a transaction as reported by the ESStoreEvent log
+ */
+export type StoredData = {
+    schemaId: Hex
+    dataId: Hex
+    publisher: Address
+}
+
+/**
+ * Data schema registered by a transaction as reported by the DataSchemaRegistered log
+ */
+export type RegisteredDataSchema = {
+    schemaId: Hex
+    publisher: Address
+}
+
+/**
+ * Event schema registered by a transaction as reported by the EventSchemaRegistered log
+ */
+export type RegisteredEventSchema = {
+    id: string
+    eventTopic: Hex
+}
+
+/**
+ * Outcome of a mined write transaction including the decoded protocol logs
+ */
+export type WriteResult = {
+    hash: Hex
+    status: "success" | "reverted"
+    blockNumber: bigint
+    blockHash: Hex
+    gasUsed: bigint
+    effectiveGasPrice: bigint
+    storedData: StoredData[]
+    registeredDataSchemas: RegisteredDataSchema[]
+    registeredEventSchemas: RegisteredEventSchema[]
+    receipt: TransactionReceipt
+}
+
+/**
+ * Outcome of simulating a write against the latest chain state
+ * @param result Value the contract function would return
+ * @param gas Estimated gas required by the transaction
+ * @param error Decoded reason the transaction would revert
+ */
+export type SimulationResult =
+    | { success: true, result: unknown, gas: bigint }
+    | { success: false, error: StreamsError }
+
+/**
+ * A sent transaction that can be awaited for its structured result
+ * @param hash Transaction hash
+ * @param simulation Pre-flight simulation of the transaction when one was requested
+ * @param wait Resolves once the transaction has the requested confirmations
+ */
+export type TransactionHandle = {
+    hash: Hex
+    simulation?: SimulationResult
+    wait(options?: WaitOptions): Promise<WriteResult>
+}
+
+/**
+ * Options applied when writing to chain
+ * @param simulate Simulate the transaction first and do not send it if it would revert
+ * @param dryRun Simulate the transaction and return the simulation without broadcasting anything
+ * @param account Account to simulate as when the wallet client has no account of its own
+ */
+export type WriteOptions = {
+    simulate?: boolean
+    dryRun?: boolean
+    account?: Address
+}
+
+/**
+ * Limits and reporting for writes that are split across several transactions
+ * @param maxItems Maximum number of data and event streams sent in one transaction (defaults to 100)
+ * @param maxGas Maximum estimated gas of one transaction (defaults to half of the block gas limit)
+ * @param concurrency Number of chunk transactions that may be awaiting confirmation at once (defaults to 1)
+ * @param wait Confirmations required before a chunk is considered written
+ * @param onProgress Called every time a chunk succeeds or fails
+ */
+export type BatchOptions = {
+    maxItems?: number
+    maxGas?: bigint
+    concurrency?: number
+    wait?: WaitOptions
+    onProgress?: (progress: BatchProgress) => void
+}
+
+/**
+ * Slice of a batch sent in a single transaction
+ * @param index Position of the chunk within the batch
+ * @param dataStreams Data streams written by the chunk
+ * @param eventStreams Event streams emitted by the chunk
+ * @param gas Gas estimated for the chunk when it was planned
+ */
+export type BatchChunk = {
+    index: number
+    dataStreams: DataStream[]
+    eventStreams: EventStream[]
+    gas: bigint
+}
+
+/**
+ * Outcome of a single chunk
+ * @dev Chunks after a failure are not sent and are reported as skipped
+ * @param hash Hash of the chunk transaction once sent
+ * @param result Decoded receipt of the chunk transaction once mined
+ * @param error Reason the chunk failed
+ */
+export type BatchChunkResult = BatchChunk & {
+    status: "success" | "failed" | "skipped"
+    hash?: Hex
+    result?: WriteResult
+    error?: StreamsError
+}
+
+/**
+ * Progress reported after each chunk settles
+ */
+export type BatchProgress = {
+    chunk: BatchChunkResult
+    completed: number
+    total: number
+}
+
+/**
+ * Outcome of a write split across several transactions
+ * @param success Whether every chunk was written
+ * @param chunks Outcome of every chunk in batch order
+ * @param resume Send the chunks that were not written again, starting from the first failed chunk
+ */
+export type BatchWriteResult = {
+    success: boolean
+    chunks: BatchChunkResult[]
+    resume(): Promise<BatchWriteResult>
+}
+
+/**
+ * Options applied when writing data streams, which may be split across several transactions
+ * @param batch Split the streams into gas and size bounded chunks
+ * @param compress Compress data stream payloads where doing so reduces calldata cost
+ * @param encrypt Encrypt data stream payloads (after compression) so that only holders of the key can read them
+ */
+export type BatchWriteOptions = WriteOptions & {
+    batch?: BatchOptions
+    compress?: boolean
+    encrypt?: EncryptionOptions
+}
+
+/**
+ * Shape of the data returned by write methods which depends on the write options supplied
+ */
+export type WriteOutcome<O extends WriteOptions | undefined> = O extends { dryRun: true }
+    ? SimulationResult
+    : O extends { batch: BatchOptions }
+        ? BatchWriteResult
+        : TransactionHandle
+
+/**
+ * Configuration for a publishing queue
+ * @param maxPending Maximum transactions queued or awaiting confirmation before publishing waits for capacity (defaults to 256)
+ * @param maxInFlight Maximum transactions sent but not yet confirmed (defaults to 16)
+ * @param maxRetries Attempts made to send a transaction after a transient RPC failure (defaults to 3)
+ * @param retryDelay Milliseconds before the first retry, doubled on every further attempt (defaults to 500)
+ * @param stuckAfter Milliseconds without a receipt before a transaction is replaced with higher fees (defaults to 30 seconds)
+ * @param feeBumpPercent Percentage fees are raised by when replacing a stuck transaction, at least 10 (defaults to 15)
+ * @param maxFeeBumps Maximum number of replacements of a single transaction, which fails once stuck again after the last one (defaults to 3)
+ */
+export type PublisherOptions = {
+    maxPending?: number
+    maxInFlight?: number
+    maxRetries?: number
+    retryDelay?: number
+    stuckAfter?: number
+    feeBumpPercent?: number
+    maxFeeBumps?: number
+}
+
+/**
+ * Options for a single publish
+ * @param key Transactions published with the same key are sent in the order they were published
+ * @param compress Compress data stream payloads where doing so reduces calldata cost
+ * @param encrypt Encrypt data stream payloads (after compression) so that only holders of the key can read them
+ */
+export type PublishOptions = {
+    key?: string
+    compress?: boolean
+    encrypt?: EncryptionOptions
+}
+
+/**
+ * A transaction accepted by a publishing queue
+ * @dev The hash changes if the transaction is replaced with higher fees and wait follows the replacement
+ * @param id Sequence number assigned when the transaction was published
+ * @param key Ordering key the transaction was published under
+ * @param nonce Nonce assigned by the queue
+ * @param wait Resolves once the transaction has the requested confirmations, reporting failures according to the error mode
+ */
+export type PublishedTransaction<M extends ErrorMode = "legacy"> = Omit<TransactionHandle, "wait"> & {
+    readonly id: number
+    readonly key: string
+    readonly nonce: number
+    wait(options?: WaitOptions): Promise<Outcome<WriteResult, M>>
+}
+
+/**
+ * Payloads of the status events raised by a publishing queue
+ */
+export type PublisherEvents = {
+    queued: { id: number, key: string }
+    sent: { id: number, key: string, nonce: number, hash: Hex }
+    replaced: { id: number, key: string, nonce: number, hash: Hex, replacedHash: Hex }
+    retry: { id: number, key: string, attempt: number, error: StreamsError }
+    confirmed: { id: number, key: string, nonce: number, hash: Hex, result: WriteResult }
+    failed: { id: number, key: string, error: StreamsError }
+    drained: Record<string, never>
+}
+
+/**
+ * Configuration for a stream handle
+ * @param publisher Wallet whose records the handle reads, defaults to the connected wallet account
+ * @param schemaId Identifier of the schema when already known, otherwise computed from the schema on first use
+ * @param register Register the schema under this name before the first write if it is not registered yet
+ * @dev Records are encoded and decoded with the handle schema alone, so it cannot extend a parent schema
+ */
+export type StreamHandleOptions = {
+    publisher?: Address
+    schemaId?: SchemaID
+    register?: { schemaName: string }
+}
+
+/**
+ * A record read through a stream handle, or the encrypted stand-in when it cannot be decrypted
+ */
+export type StreamRecord<S extends string> = SchemaRecord<S> | EncryptedRecord
+
+/**
+ * A record pushed to a stream watcher
+ * @param key bytes32 key the record was written under
+ * @param record Decoded record
+ */
+export type StreamUpdate<S extends string> = {
+    key: Hex
+    record: StreamRecord<S>
+}
+
+/**
+ * A running stream watcher or event subscription
+ * @param subscriptionId Identifier of the node subscription, which changes when a resumable subscription reconnects
+ * @param unsubscribe Stop receiving notifications
+ * @param cursor Position of the last notification processed, only present on resumable subscriptions
+ */
+export type StreamSubscription = {
+    subscriptionId: Hex
+    unsubscribe(): Promise<void>
+    cursor?(): SubscriptionCursor | undefined
+}
+
+/**
+ * Position of a log on chain
+ */
+export type LogPosition = {
+    blockNumber: bigint
+    blockHash: Hex
+    transactionHash: Hex
+    logIndex: number
+}
+
+/**
+ * Position a resumable subscription has processed up to, inclusive
+ * @dev A logIndex of -1 means the block was reached without anything in it being delivered
+ * @param blockNumber Block of the last processed log, or the latest block checked when nothing was delivered since
+ * @param blockHash Hash of that block, used to detect reorgs when resuming
+ * @param logIndex Index of the last processed log within the block
+ */
+export type SubscriptionCursor = {
+    blockNumber: bigint
+    blockHash: Hex
+    logIndex: number
+}
+
+/**
+ * A notification that was delivered from a block since removed from the chain by a reorg
+ * @param topics Topics of the removed log
+ * @param data Data of the removed log
+ */
+export type SubscriptionRetraction = LogPosition & {
+    topics: Hex[]
+    data: Hex
+}
+
+/**
+ * Reconnection, backfill and reorg handling of a resumable subscription
+ * @dev Notifications are read from the logs of the protocol in order, the node subscription only signals that new logs exist
+ * @param cursor Position to resume after, taking precedence over a cursor found in the store
+ * @param fromBlock First block delivered when there is no cursor, defaults to the block after the latest block at the time of subscribing
+ * @param store Storage the cursor is saved to after every notification so a restarted process resumes where it stopped
+ * @param storeKey Key the cursor is saved under, required with a store
+ * @param pageSize Blocks searched per eth_getLogs request while backfilling (defaults to 1000)
+ * @param reorgDepth Number of recent blocks tracked to detect reorgs and retract what was delivered from them (defaults to 64)
+ * @param initialDelay Delay in milliseconds before the first reconnection or retry (defaults to 1000)
+ * @param maxDelay Upper bound in milliseconds of the delay, which doubles after every failed attempt (defaults to 30000)
+ * @param maxAttempts Reconnection attempts before giving up, unlimited when not set
+ * @param onRetract Called for every delivered notification whose block was removed by a reorg, newest first
+ */
+export type ResumeOptions = {
+    cursor?: SubscriptionCursor
+    fromBlock?: bigint
+    store?: CacheStorageAdapter
+    storeKey?: string
+    pageSize?: number
+    reorgDepth?: number
+    initialDelay?: number
+    maxDelay?: number
+    maxAttempts?: number
+    onRetract?(retraction: SubscriptionRetraction): void
+}
+
+/**
+ * A contract read the node executes alongside every notification of a subscription
+ * @param to Contract being read
+ * @param abi ABI used to encode the call and decode its result
+ * @param functionName Function being read
+ * @param args Arguments of the function
+ * @param from Account the call is made from
+ */
+export type SubscriptionCall = {
+    to: Address
+    abi: Abi
+    functionName: string
+    args?: readonly unknown[]
+    from?: Address
+}
+
+/**
+ * A notification of an event subscription
+ * @dev Indexed strings, bytes, arrays and tuples are recorded as a hash so the topic is returned in their place
+ * @param eventId Identifier the event schema was registered under
+ * @param eventTopic Topic identifying the event
+ * @param args Value of every event parameter by name
+ * @param ethCalls Result of every subscription call in the order supplied
+ * @param position Position of the event log, only present on resumable subscriptions
+ */
+export type EventNotification = {
+    eventId: string
+    eventTopic: Hex
+    args: Record<string, unknown>
+    ethCalls: BulkResult<unknown>[]
+    position?: LogPosition
+}
+
+/**
+ * Filter and callbacks of an event subscription
+ * @param filters Value to match for indexed parameters by name, an array matching any of its values
+ * @param ethCalls Contract reads executed for every notification, by the node or at the block of the event when resumable
+ * @param onlyPushChanges Only notify when the results of the calls changed since the previous notification
+ * @param resume Make the subscription resumable, surviving disconnections and restarts without missing events
+ * @param onData Called with every matching event, decoded with its registered event schema
+ * @param onError Called when a notification cannot be decoded or the subscription fails
+ */
+export type EventSubscriptionOptions = {
+    filters?: Record<string, unknown>
+    ethCalls?: SubscriptionCall[]
+    onlyPushChanges?: boolean
+    resume?: ResumeOptions
+    onData(notification: EventNotification): void
+    onError?(error: StreamsError): void
+}
+
+/**
+ * Filter and decoding of a data watcher
+ * @param publisher Only deliver records written by this publisher, records of every publisher are delivered when not set
+ * @param key Only deliver records written under this key
+ * @param resume Make the watcher resumable, surviving disconnections and restarts without missing writes
+ * @param onError Called when a record cannot be read or the subscription fails
+ */
+export type DataWatchOptions = ReadOptions & {
+    publisher?: Address
+    key?: Hex | StructuredKey
+    resume?: ResumeOptions
+    onError?(error: StreamsError): void
+}
+
+/**
+ * A record written to a watched schema
+ * @param key Data stream id the record was written under
+ * @param index Position of the record in the data the publisher wrote for the schema
+ * @param publisher Address that wrote the record
+ * @param record Record decoded according to the read options
+ * @param position Position of the ESStoreEvent log of the write, only present on resumable watchers
+ */
+export type DataUpdate<O extends ReadOptions> = {
+    key: Hex
+    index: bigint
+    publisher: Address
+    record: ReadRecord<O>
+    position?: LogPosition
+}
+
+/**
+ * Block range and filter of a query for emitted events
+ * @param fromBlock First block searched (inclusive)
+ * @param toBlock Last block searched (inclusive), defaults to the latest block
+ * @param filters Value to match for indexed parameters by name, an array matching any of its values
+ * @param pageSize Blocks searched per eth_getLogs request, halved when the node rejects a page (defaults to 1000)
+ */
+export type EventLogQuery = {
+    fromBlock: bigint
+    toBlock?: bigint
+    filters?: Record<string, unknown>
+    pageSize?: number
+}
+
+/**
+ * An event emitted through the protocol with its parameters decoded by name
+ * @dev Indexed strings, bytes, arrays and tuples are recorded as a hash so the topic is returned in their place
+ * @param eventId Identifier the event schema was registered under
+ * @param eventTopic Topic identifying the event
+ * @param args Value of every event parameter by name
+ */
+export type StreamsEventLog = {
+    eventId: string
+    eventTopic: Hex
+    args: Record<string, unknown>
+    blockNumber: bigint
+    blockHash: Hex
+    transactionHash: Hex
+    transactionIndex: number
+    logIndex: number
+}
+
+/**
+ * Block range of a publisher discovery scan
+ * @param fromBlock First block scanned, later calls only read blocks outside the range already scanned
+ * @param toBlock Last block scanned, defaults to the latest block
+ * @param pageSize Blocks searched per eth_getLogs request, halved when the node rejects a page (defaults to 1000)
+ * @param reorgDepth Number of recent blocks checked for reorgs on every scan, writes in blocks a reorg replaced are dropped and read again (defaults to 64)
+ */
+export type PublisherScanOptions = {
+    fromBlock: bigint
+    toBlock?: bigint
+    pageSize?: number
+    reorgDepth?: number
+}
+
+/**
+ * Writes of one publisher to a schema
+ * @param publisher Address that wrote the data
+ * @param firstSeenBlock Block of the earliest write seen
+ * @param lastSeenBlock Block of the latest write seen
+ * @param writes Number of data streams written, including overwrites of the same key
+ */
+export type PublisherActivity = {
+    publisher: Address
+    firstSeenBlock: bigint
+    lastSeenBlock: bigint
+    writes: number
+}
+
+/**
+ * Publishers of a schema over the range of blocks scanned so far
+ * @param fromBlock First block covered
+ * @param toBlock Last block covered
+ * @param publishers Publishers ordered by their earliest write
+ */
+export type PublisherScan = {
+    fromBlock: bigint
+    toBlock: bigint
+    publishers: PublisherActivity[]
+}
+
+/**
+ * How SDK methods report failures
+ * @dev legacy: resolve to the value or an Error object, throw: reject with a StreamsError, result: resolve to a Result union
+ */
+export type ErrorMode = "legacy" | "throw" | "result"
+
+/**
+ * Discriminated union returned by SDK methods when the error mode is "result"
+ */
+export type Result<T> =
+    | { ok: true, value: T }
+    | { ok: false, error: StreamsError }
+
+/**
+ * Return shape of an SDK method for a given error mode
+ */
+export type Outcome<T, M extends ErrorMode> = M extends "throw"
+    ? T
+    : M extends "result"
+        ? Result<T>
+        : T | Error
+
+/**
+ * Full definition of a schema after factoring in its ancestors
+ * @param baseSchema Schema definition excluding inherited fields
+ * @param finalSchema Schema definition including the fields of every ancestor
+ * @param schemaId Identifier of the schema
+ */
+export type SchemaInfo = {
+    baseSchema: string
+    finalSchema: string
+    schemaId: Hex
+}
+
+/**
+ * Configuration for a Streams instance
+ * @param cache Storage adapter backing the schema metadata cache (in-memory LRU by default) or an existing cache to share
+ * @param errorMode How methods report failures, defaults to "legacy" (resolve to an Error object)
+ * @param logger Destination for SDK diagnostics, defaults to the console
+ * @param logLevel Minimum level that is logged, defaults to warn for the console logger
+ * @param keyProvider Source of the keys used to decrypt encrypted payloads when reading
+ * @param contractAddresses Streams contract address by chain id, taking precedence over the known deployments (local devnets, forks, private deployments)
+ * @param chains Chains this instance can connect to in addition to the known deployments, use registerChain to add chains for every instance
+ */
+export type StreamsOptions<M extends ErrorMode = ErrorMode> = {
+    cache?: CacheStorageAdapter | SchemaCache
+    errorMode?: M
+    logger?: Logger
+    logLevel?: LogLevel
+    keyProvider?: KeyProvider
+    contractAddresses?: Record<number, Address>
+    chains?: ChainRegistration[]
+}
+
 export type GetSomniaDataStreamsProtocolInfoResponse = {
   address: string
   abi: Abi
   chainId: number
 }
 
-export interface StreamsInterface {
+export interface StreamsInterface<M extends ErrorMode = "legacy"> {
     // Write
-    set(d: DataStream[]): Promise<Hex | Error>;
-    emitEvents(e: EventStream[]): Promise<Hex | Error>;
-    setAndEmitEvents(d: DataStream[], e: EventStream[]): Promise<Hex | Error>;
+    set<O extends BatchWriteOptions>(d: DataStream[], options?: O): Promise<Outcome<WriteOutcome<O>, M>>;
+    emitEvents<O extends WriteOptions>(e: EventStream[], options?: O): Promise<Outcome<WriteOutcome<O>, M>>;
+    setAndEmitEvents<O extends BatchWriteOptions>(d: DataStream[], e: EventStream[], options?: O): Promise<Outcome<WriteOutcome<O>, M>>;
 
     // Manage
-    registerDataSchemas(registrations: DataSchemaRegistration[], ignoreRegisteredSchemas?: boolean): Promise<Hex | Error>;
-    registerEventSchemas(registrations: EventSchemaRegistration[]): Promise<Hex | Error>;
-    manageEventEmittersForRegisteredStreamsEvent(
+    registerDataSchemas<O extends WriteOptions>(
+        registrations: DataSchemaRegistration[],
+        ignoreRegisteredSchemas?: boolean,
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>>;
+    registerEventSchemas<O extends WriteOptions>(registrations: EventSchemaRegistration[], options?: O): Promise<Outcome<WriteOutcome<O>, M>>;
+    manageEventEmittersForRegisteredStreamsEvent<O extends WriteOptions>(
         streamsEventId: string,
         emitter: Address,
-        isEmitter: boolean
-    ): Promise<Hex | Error>;
+        isEmitter: boolean,
+        options?: O
+    ): Promise<Outcome<WriteOutcome<O>, M>>;
 
     // Read
-    getByKey(schemaId: SchemaID, publisher: Address, key: Hex): Promise<Hex[] | SchemaDecodedItem[][] | Error>;
-    getAtIndex(schemaId: SchemaID, publisher: Address, idx: bigint): Promise<Hex[] | SchemaDecodedItem[][] | Error>;
-    getBetweenRange(
+    getByKey<O extends ReadOptions>(
+        schemaId: SchemaID,
+        publisher: Address,
+        key: Hex | StructuredKey,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>>;
+    getAtIndex<O extends ReadOptions>(schemaId: SchemaID, publisher: Address, idx: bigint, options?: O): Promise<Outcome<ReadResult<O>, M>>;
+    getByKeys<O extends BulkReadOptions>(
+        schemaId: SchemaID,
+        publisher: Address,
+        keys: (Hex | StructuredKey)[],
+        options?: O
+    ): Promise<Outcome<BulkResult<ReadRecord<O> | undefined>[], M>>;
+    getLatestForPublishers<O extends BulkReadOptions>(
+        schemaId: SchemaID,
+        publishers: Address[],
+        options?: O
+    ): Promise<Outcome<BulkResult<ReadRecord<O> | undefined>[], M>>;
+    getCounts(schemaId: SchemaID, publishers: Address[], options?: BulkReadOptions): Promise<Outcome<BulkResult<bigint>[], M>>;
+    getBetweenRange<O extends ReadOptions>(
         schemaId: SchemaID,
         publisher: Address,
         startIndex: bigint,
-        endIndex: bigint
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error>;
-    getAllPublisherDataForSchema(
+        endIndex: bigint,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>>;
+    getAllPublisherDataForSchema<O extends ReadOptions>(
         schemaReference: SchemaReference,
-        publisher: Address
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error>;
-    getLastPublishedDataForSchema(
+        publisher: Address,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>>;
+    getLastPublishedDataForSchema<O extends ReadOptions>(
+        schemaId: SchemaID,
+        publisher: Address,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>>;
+    getLastNPublishedDataForSchema<O extends ReadOptions>(
+        schemaId: SchemaID,
+        publisher: Address,
+        n: number,
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>>;
+    iteratePublisherData<O extends PageReadOptions>(
+        schemaId: SchemaID,
+        publisher: Address,
+        options?: O
+    ): AsyncGenerator<ReadRecord<O>, void, undefined>;
+    totalPublisherDataForSchema(schemaId: SchemaID, publisher: Address): Promise<Outcome<bigint, M>>;
+    isDataSchemaRegistered(schemaId: SchemaID): Promise<Outcome<boolean, M>>;
+    computeSchemaId(schema: string): Promise<Outcome<Hex, M>>;
+    parentSchemaId(schemaId: SchemaID): Promise<Outcome<Hex, M>>;
+    schemaIdToSchemaName(schemaId: SchemaID): Promise<Outcome<string, M>>;
+    schemaNameToSchemaId(schemaName: string): Promise<Outcome<SchemaID, M>>;
+    getAllSchemas(): Promise<Outcome<string[], M>>;
+    getEventSchemasById(ids: string[]): Promise<Outcome<EventSchema[], M>>;
+    eventIdFromTopic(topic: Hex): Promise<Outcome<string, M>>;
+    getEventLogs(eventId: string | undefined, query: EventLogQuery): Promise<Outcome<StreamsEventLog[], M>>;
+    subscribeToEvent(eventId: string, options: EventSubscriptionOptions): Promise<Outcome<StreamSubscription, M>>;
+    watchData<O extends DataWatchOptions>(
         schemaId: SchemaID,
-        publisher: Address
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error>;
-    totalPublisherDataForSchema(schemaId: SchemaID, publisher: Address): Promise<bigint | Error>;
-    isDataSchemaRegistered(schemaId: SchemaID): Promise<boolean | Error>;
-    computeSchemaId(schema: string): Promise<Hex | Error>;
-    parentSchemaId(schemaId: SchemaID): Promise<Hex | Error>;
-    schemaIdToSchemaName(schemaId: SchemaID): Promise<string | Error>;
-    schemaNameToSchemaId(schemaName: string): Promise<SchemaID | Error>;
-    getAllSchemas(): Promise<string[] | Error>;
-    getEventSchemasById(ids: string[]): Promise<EventSchema[] | Error>;
-    getSchemaFromSchemaId(
-        schemaId: SchemaID
-    ): Promise<{
-        baseSchema: string
-        finalSchema: string
-        schemaId: Hex
-    } | Error>;
+        options: O,
+        onRecord: (update: DataUpdate<O>) => void
+    ): Promise<Outcome<StreamSubscription, M>>;
+    getPublishersForSchema(schemaId: SchemaID, options: PublisherScanOptions): Promise<Outcome<PublisherScan, M>>;
+    getSchemaLineage(schemaId: SchemaID): Promise<Outcome<SchemaLineageEntry[], M>>;
+    getSchemaFromSchemaId(schemaId: SchemaID): Promise<Outcome<SchemaInfo, M>>;
 
     // Helper
-    deserialiseRawData(
+    buildEventStream(eventId: string, values: Record<string, unknown>, schema?: EventSchema): Promise<Outcome<EventStream, M>>;
+    createPublisher(options?: PublisherOptions): Publisher<M>;
+    stream<const S extends string>(schema: S | TypedSchema<S>, options?: StreamHandleOptions): StreamHandle<S, M>;
+    deserialiseRawData<O extends ReadOptions>(
         rawData: Hex[],
         schemaId: Hex,
-        decompress: boolean
-    ): Promise<Hex[] | SchemaDecodedItem[][] | Error>;
+        options?: O
+    ): Promise<Outcome<ReadResult<O>, M>>;
 
     // Protocol
-    getSomniaDataStreamsProtocolInfo(): Promise<GetSomniaDataStreamsProtocolInfoResponse | Error>;
+    getSomniaDataStreamsProtocolInfo(): Promise<Outcome<GetSomniaDataStreamsProtocolInfoResponse, M>>;
 }
\ No newline at end of file
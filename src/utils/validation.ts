@@ -1,11 +1,12 @@
 import { isAddress, isAddressEqual, zeroAddress, Address } from "viem"
+import { StreamsErrorCode, StreamsValidationError } from "@/services/errors"
 
 export function assertAddressIsValid(address: Address, disableZeroAddressCheck?: boolean) {
     if (!isAddress(address, { strict: false })) {
-        throw new Error(`Invalid address`)
+        throw new StreamsValidationError(StreamsErrorCode.InvalidAddress, `Invalid address`)
     }
 
     if (!disableZeroAddressCheck && isAddressEqual(address, zeroAddress)) {
-        throw new Error(`Zero address supplied`)
+        throw new StreamsValidationError(StreamsErrorCode.InvalidAddress, `Zero address supplied`)
     }
 }
\ No newline at end of file